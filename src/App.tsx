@@ -1,28 +1,26 @@
-import { useEffect, useState } from 'react'
 import { BrowserRouter, Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom'
 import Login from './pages/Login'
 import Dashboard from './pages/Dashboard'
 import ReportDetail from './pages/ReportDetail'
+import ReportHistory from './pages/ReportHistory'
 import Upload from './pages/Upload'
 import Comparison from './pages/Comparison'
+import Analytics from './pages/Analytics'
+import Pipeline from './pages/Pipeline'
+import Calendar from './pages/Calendar'
+import MyTasks from './pages/MyTasks'
+import AnalysisStatus from './pages/AnalysisStatus'
+import Forbidden from './pages/Forbidden'
+import UserManagement from './pages/UserManagement'
+import DeadlineReminders from './components/DeadlineReminders'
+import { SessionProvider, useSession } from './auth/SessionProvider'
+import { Permission, ROLE_LABELS } from './auth/roles'
+import { loginPath } from './auth/session'
 
 function Layout({ children }: { children: React.ReactNode }) {
   const navigate = useNavigate()
   const location = useLocation()
-  const [user, setUser] = useState<any>(null)
-
-  useEffect(() => {
-    const userStr = localStorage.getItem('user')
-    if (userStr) {
-      setUser(JSON.parse(userStr))
-    }
-  }, [location])
-
-  const handleLogout = () => {
-    localStorage.removeItem('auth_token')
-    localStorage.removeItem('user')
-    navigate('/login')
-  }
+  const { user, logout, can } = useSession()
 
   if (location.pathname === '/login') {
     return <>{children}</>
@@ -50,24 +48,73 @@ function Layout({ children }: { children: React.ReactNode }) {
                 >
                   Dashboard
                 </button>
+                {can('documents:upload') && (
+                  <button
+                    onClick={() => navigate('/upload')}
+                    className={`text-sm font-medium transition-colors ${
+                      location.pathname === '/upload' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    Upload
+                  </button>
+                )}
                 <button
-                  onClick={() => navigate('/upload')}
+                  onClick={() => navigate('/pipeline')}
                   className={`text-sm font-medium transition-colors ${
-                    location.pathname === '/upload' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    location.pathname === '/pipeline' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
                   }`}
                 >
-                  Upload
+                  Pipeline
                 </button>
+                <button
+                  onClick={() => navigate('/calendar')}
+                  className={`text-sm font-medium transition-colors ${
+                    location.pathname === '/calendar' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  Calendar
+                </button>
+                <button
+                  onClick={() => navigate('/tasks')}
+                  className={`text-sm font-medium transition-colors ${
+                    location.pathname === '/tasks' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  My Tasks
+                </button>
+                {can('analytics:view') && (
+                  <button
+                    onClick={() => navigate('/analytics')}
+                    className={`text-sm font-medium transition-colors ${
+                      location.pathname === '/analytics' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    Analytics
+                  </button>
+                )}
+                {can('users:manage') && (
+                  <button
+                    onClick={() => navigate('/admin/users')}
+                    className={`text-sm font-medium transition-colors ${
+                      location.pathname === '/admin/users' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    Users
+                  </button>
+                )}
               </nav>
             </div>
             <div className="flex items-center gap-4">
               {user && (
                 <div className="hidden sm:block text-sm text-gray-600">
                   {user.full_name || user.email}
+                  <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">
+                    {ROLE_LABELS[user.role]}
+                  </span>
                 </div>
               )}
               <button
-                onClick={handleLogout}
+                onClick={logout}
                 className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
               >
                 Logout
@@ -79,6 +126,8 @@ function Layout({ children }: { children: React.ReactNode }) {
 
       <main>{children}</main>
 
+      {user && <DeadlineReminders userId={user.id} />}
+
       {/* Footer */}
       <footer className="bg-white border-t border-gray-200 mt-12">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -91,52 +140,117 @@ function Layout({ children }: { children: React.ReactNode }) {
   )
 }
 
-function PrivateRoute({ children }: { children: React.ReactNode }) {
-  const token = localStorage.getItem('auth_token')
-  return token ? <>{children}</> : <Navigate to="/login" />
+function PrivateRoute({ children, permission }: { children: React.ReactNode; permission?: Permission }) {
+  const location = useLocation()
+  const { isAuthenticated, can } = useSession()
+  if (!isAuthenticated) {
+    return <Navigate to={loginPath(location.pathname + location.search)} replace />
+  }
+  if (permission && !can(permission)) {
+    return <Forbidden />
+  }
+  return <>{children}</>
 }
 
 function App() {
   return (
     <BrowserRouter>
-      <Layout>
-        <Routes>
-          <Route path="/login" element={<Login />} />
-          <Route
-            path="/"
-            element={
-              <PrivateRoute>
-                <Dashboard />
-              </PrivateRoute>
-            }
-          />
-          <Route
-            path="/upload"
-            element={
-              <PrivateRoute>
-                <Upload />
-              </PrivateRoute>
-            }
-          />
-          <Route
-            path="/report/:id"
-            element={
-              <PrivateRoute>
-                <ReportDetail />
-              </PrivateRoute>
-            }
-          />
-          <Route
-            path="/compare"
-            element={
-              <PrivateRoute>
-                <Comparison />
-              </PrivateRoute>
-            }
-          />
-          <Route path="*" element={<Navigate to="/" />} />
-        </Routes>
-      </Layout>
+      <SessionProvider>
+        <Layout>
+          <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route
+              path="/"
+              element={
+                <PrivateRoute>
+                  <Dashboard />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/upload"
+              element={
+                <PrivateRoute permission="documents:upload">
+                  <Upload />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/documents/:id"
+              element={
+                <PrivateRoute>
+                  <AnalysisStatus />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/report/:id"
+              element={
+                <PrivateRoute>
+                  <ReportDetail />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/report/:id/history"
+              element={
+                <PrivateRoute>
+                  <ReportHistory />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/compare"
+              element={
+                <PrivateRoute>
+                  <Comparison />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/pipeline"
+              element={
+                <PrivateRoute>
+                  <Pipeline />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/calendar"
+              element={
+                <PrivateRoute>
+                  <Calendar />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/tasks"
+              element={
+                <PrivateRoute>
+                  <MyTasks />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/analytics"
+              element={
+                <PrivateRoute permission="analytics:view">
+                  <Analytics />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/admin/users"
+              element={
+                <PrivateRoute permission="users:manage">
+                  <UserManagement />
+                </PrivateRoute>
+              }
+            />
+            <Route path="*" element={<Navigate to="/" />} />
+          </Routes>
+        </Layout>
+      </SessionProvider>
     </BrowserRouter>
   )
 }
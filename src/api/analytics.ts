@@ -0,0 +1,56 @@
+/**
+ * Portfolio analytics: aggregates over every report, computed by the API
+ */
+import api from './client'
+
+export interface RiskBin {
+  // Bounds as the API filters on them (risk_min/risk_max), so a bin drills through to exactly its reports
+  min: number
+  max: number
+  count: number
+}
+
+export interface MonthlyVolume {
+  // First day of the month, YYYY-MM-DD
+  month: string
+  count: number
+  // Sum of the mid-range budgets
+  value: number
+}
+
+export interface GroupTotal {
+  name: string
+  count: number
+  value: number
+}
+
+export interface RecommendationCount {
+  recommendation: string
+  count: number
+}
+
+export interface UpcomingDeadline {
+  id: number
+  project_name: string
+  client_name: string
+  deadline_date: string
+  risk_level: string
+  participation_recommendation: string
+}
+
+export interface PortfolioAnalytics {
+  risk_distribution: RiskBin[]
+  monthly: MonthlyVolume[]
+  by_project_type: GroupTotal[]
+  by_location: GroupTotal[]
+  by_client: GroupTotal[]
+  recommendations: RecommendationCount[]
+  upcoming_deadlines: UpcomingDeadline[]
+}
+
+// Trailing windows offered on the Analytics page
+export const ANALYTICS_PERIODS = [3, 6, 12, 24]
+
+export const getPortfolioAnalytics = (dateFrom: string, signal?: AbortSignal) => {
+  return api.get<PortfolioAnalytics>('/api/analytics/portfolio', { params: { date_from: dateFrom }, signal })
+}
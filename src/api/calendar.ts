@@ -0,0 +1,39 @@
+/**
+ * Tender dates across all reports, for the calendar and deadline reminders
+ */
+import api from './client'
+
+export interface CalendarReport {
+  id: number
+  project_name: string
+  client_name: string
+  location: string
+  risk_score: number
+  risk_level: string
+  deadline_date: string
+  award_date: string
+  start_date: string
+}
+
+// Reports whose proposal deadline falls between the two dates (YYYY-MM-DD, inclusive); either may be empty
+export const listCalendarReports = (dateFrom: string, dateTo: string, signal?: AbortSignal) => {
+  const params: Record<string, string> = {}
+  if (dateFrom) params.deadline_from = dateFrom
+  if (dateTo) params.deadline_to = dateTo
+  return api.get<{ reports: CalendarReport[] }>('/api/calendar/reports', { params, signal })
+}
+
+export interface CalendarFeed {
+  // Private .ics URL with its own token, since calendar apps can't send our auth header
+  url: string
+}
+
+// The signed-in user's subscription feed of every report's upcoming dates, kept current by the server
+export const getCalendarFeed = () => {
+  return api.get<CalendarFeed>('/api/calendar/feed')
+}
+
+// Issues a new feed URL and revokes the old one, e.g. after it was shared by mistake
+export const resetCalendarFeed = () => {
+  return api.post<CalendarFeed>('/api/calendar/feed/reset')
+}
@@ -0,0 +1,136 @@
+/**
+ * Authenticated API client shared by every page
+ */
+import axios, { AxiosError, AxiosRequestConfig } from 'axios'
+import { getApiUrl } from '../config'
+import { clearSession, getToken, loginPath } from '../auth/session'
+
+// Normalized error thrown by every api.* call
+export class ApiError extends Error {
+  status: number | null
+  details: unknown
+
+  constructor(message: string, status: number | null = null, details: unknown = null) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.details = details
+  }
+
+  get isUnauthorized() {
+    return this.status === 401
+  }
+
+  get isNetworkError() {
+    return this.status === null
+  }
+}
+
+// Requests that must not trigger the logout redirect on a 401; a failed refresh is left to
+// the session expiry warning, which still has time on the current token
+const PUBLIC_PATHS = ['/api/auth/login', '/api/auth/refresh']
+
+type UnauthorizedHandler = (from: string) => void
+
+let unauthorizedHandler: UnauthorizedHandler | null = null
+
+// Lets the router take over the redirect instead of a full page reload
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+  unauthorizedHandler = handler
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null
+
+const extractMessage = (data: unknown, fallback: string): string => {
+  if (!data) return fallback
+  if (typeof data === 'string') return data
+  if (!isRecord(data)) return fallback
+  // FastAPI returns { detail: string } or { detail: [{ msg }] } for validation errors
+  if (typeof data.detail === 'string') return data.detail
+  if (Array.isArray(data.detail)) {
+    const messages = data.detail.flatMap(item => (isRecord(item) && typeof item.msg === 'string' ? [item.msg] : []))
+    if (messages.length > 0) return messages.join(', ')
+  }
+  if (typeof data.message === 'string') return data.message
+  return fallback
+}
+
+// True for requests aborted through an AbortSignal
+export const isCancel = (err: unknown): boolean => axios.isCancel(err)
+
+export const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err
+  if (axios.isAxiosError(err)) {
+    const axiosErr = err as AxiosError
+    if (!axiosErr.response) {
+      return new ApiError('Unable to reach the server. Check your connection and try again.')
+    }
+    const { status, data } = axiosErr.response
+    return new ApiError(extractMessage(data, `Request failed with status ${status}`), status, data)
+  }
+  return new ApiError(err instanceof Error ? err.message : 'Unexpected error')
+}
+
+export const apiClient = axios.create({
+  baseURL: getApiUrl(),
+})
+
+apiClient.interceptors.request.use((config) => {
+  const token = getToken()
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`
+  }
+  return config
+})
+
+apiClient.interceptors.response.use(
+  (response) => response,
+  (err) => {
+    if (axios.isCancel(err)) {
+      return Promise.reject(err)
+    }
+
+    const apiError = toApiError(err)
+    const url: string = err.config?.url || ''
+
+    if (apiError.isUnauthorized && !PUBLIC_PATHS.some(path => url.endsWith(path))) {
+      clearSession()
+      const from = window.location.pathname + window.location.search
+      if (window.location.pathname !== '/login') {
+        if (unauthorizedHandler) {
+          unauthorizedHandler(from)
+        } else {
+          window.location.assign(loginPath(from))
+        }
+      }
+    }
+
+    return Promise.reject(apiError)
+  }
+)
+
+// Typed helpers that unwrap response.data
+export const api = {
+  get: async <T>(url: string, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await apiClient.get<T>(url, config)
+    return response.data
+  },
+  post: async <T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await apiClient.post<T>(url, data, config)
+    return response.data
+  },
+  put: async <T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await apiClient.put<T>(url, data, config)
+    return response.data
+  },
+  patch: async <T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await apiClient.patch<T>(url, data, config)
+    return response.data
+  },
+  delete: async <T>(url: string, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await apiClient.delete<T>(url, config)
+    return response.data
+  },
+}
+
+export default api
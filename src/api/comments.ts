@@ -0,0 +1,73 @@
+/**
+ * Comment threads on report sections, red flags and risk category items
+ */
+import api from './client'
+
+export type CommentSection = 'executive_summary' | 'cost_analysis' | 'risk_assessment' | 'recommendations'
+
+// A thread sits on a whole section, or on one item within it when `item` is set
+export interface CommentAnchor {
+  section: CommentSection
+  item: string | null
+}
+
+export interface ReportComment {
+  id: number
+  thread_id: number
+  author_id: number
+  author_name: string
+  body: string
+  mention_ids: number[]
+  created_at: string
+  // Whether the signed-in user had not seen this comment when the threads were loaded
+  unread: boolean
+}
+
+export interface CommentThread extends CommentAnchor {
+  id: number
+  report_id: number
+  resolved: boolean
+  resolved_by_name: string | null
+  resolved_at: string | null
+  created_at: string
+  comments: ReportComment[]
+}
+
+export interface CommentInput {
+  body: string
+  mention_ids: number[]
+}
+
+// Items are keyed by their text, like tasks, so threads follow the item across re-analysis while it is unchanged
+export const sectionAnchor = (section: CommentSection): CommentAnchor => ({ section, item: null })
+
+export const redFlagAnchor = (flag: string): CommentAnchor => ({ section: 'risk_assessment', item: `red_flag:${flag}` })
+
+export const riskItemAnchor = (category: string, item: string): CommentAnchor => ({
+  section: 'risk_assessment',
+  item: `risk_item:${category}:${item}`,
+})
+
+export const anchorKey = ({ section, item }: CommentAnchor) => (item ? `${section}:${item}` : section)
+
+export const listCommentThreads = (reportId: number | string) => {
+  return api.get<CommentThread[]>(`/api/reports/${reportId}/comment-threads`)
+}
+
+export const createCommentThread = (reportId: number | string, anchor: CommentAnchor, input: CommentInput) => {
+  return api.post<CommentThread>(`/api/reports/${reportId}/comment-threads`, { ...anchor, ...input })
+}
+
+// Replies and resolution changes return the whole updated thread
+export const replyToThread = (threadId: number, input: CommentInput) => {
+  return api.post<CommentThread>(`/api/comment-threads/${threadId}/comments`, input)
+}
+
+export const setThreadResolved = (threadId: number, resolved: boolean) => {
+  return api.patch<CommentThread>(`/api/comment-threads/${threadId}`, { resolved })
+}
+
+// Clears the report's unread badge on the Dashboard
+export const markCommentsRead = (reportId: number | string) => {
+  return api.post<void>(`/api/reports/${reportId}/comment-threads/read`)
+}
@@ -0,0 +1,89 @@
+/**
+ * Document upload and AI analysis job endpoints
+ */
+import { AxiosRequestConfig } from 'axios'
+import api from './client'
+
+export type AnalysisStageKey =
+  | 'extraction'
+  | 'executive_summary'
+  | 'cost_analysis'
+  | 'risk_assessment'
+  | 'saving'
+
+export type AnalysisStageStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export type AnalysisJobStatus = 'queued' | 'processing' | 'completed' | 'failed'
+
+export interface AnalysisStage {
+  key: AnalysisStageKey
+  status: AnalysisStageStatus
+  error?: string | null
+}
+
+export interface AnalysisJob {
+  document_id: number
+  filename: string
+  status: AnalysisJobStatus
+  stages: AnalysisStage[]
+  report_id: number | null
+  error: string | null
+  started_at: string | null
+}
+
+// Optional tender details entered before upload to guide the analysis
+export interface DocumentMetadata {
+  client_name: string
+  project_type: string
+  deadline_date: string
+}
+
+export const EMPTY_METADATA: DocumentMetadata = { client_name: '', project_type: '', deadline_date: '' }
+
+// Only filled-in fields are sent
+export const compactMetadata = (metadata: DocumentMetadata): Partial<DocumentMetadata> => {
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value.trim() !== ''))
+}
+
+export interface UploadResponse {
+  document_id: number
+  filename: string
+}
+
+// Mirrors the "What happens next?" steps on the upload page
+export const ANALYSIS_STAGES: Array<{ key: AnalysisStageKey; label: string }> = [
+  { key: 'extraction', label: 'Validate file and extract text' },
+  { key: 'executive_summary', label: 'AI prompt 1: Executive Summary' },
+  { key: 'cost_analysis', label: 'AI prompt 2: Cost Analysis' },
+  { key: 'risk_assessment', label: 'AI prompt 3: Risk Assessment' },
+  { key: 'saving', label: 'Save report to dashboard' },
+]
+
+export const isJobFinished = (job: AnalysisJob) => job.status === 'completed' || job.status === 'failed'
+
+export const uploadDocument = (formData: FormData, config?: AxiosRequestConfig) => {
+  return api.post<UploadResponse>('/api/documents/upload', formData, {
+    ...config,
+    headers: {
+      'Content-Type': 'multipart/form-data',
+      ...config?.headers,
+    },
+  })
+}
+
+// A tender package groups several uploaded files into one analysis and report
+export const createPackage = (name: string, metadata: DocumentMetadata = EMPTY_METADATA) => {
+  return api.post<{ package_id: number }>('/api/packages', { name, ...compactMetadata(metadata) })
+}
+
+export const analyzePackage = (packageId: number) => {
+  return api.post<UploadResponse>(`/api/packages/${packageId}/analyze`)
+}
+
+export const getAnalysisStatus = (documentId: number | string, signal?: AbortSignal) => {
+  return api.get<AnalysisJob>(`/api/documents/${documentId}/status`, { signal })
+}
+
+export const retryAnalysis = (documentId: number | string) => {
+  return api.post<AnalysisJob>(`/api/documents/${documentId}/retry`)
+}
@@ -0,0 +1,47 @@
+/**
+ * Human overrides of the AI risk assessment and recommendation, with their audit log
+ */
+import api from './client'
+import { AdjustableField, Report } from './reports'
+
+export interface OverrideAuditEntry {
+  id: number
+  field: AdjustableField
+  ai_value: string | number
+  // Null when the field was still on the AI value, or is being restored to it
+  previous_value: string | number | null
+  new_value: string | number | null
+  justification: string
+  user_name: string
+  created_at: string
+}
+
+export interface OverrideInput {
+  field: AdjustableField
+  // Null restores the AI value
+  value: string | number | null
+  justification: string
+}
+
+export const RISK_SCORE_MIN = 0
+export const RISK_SCORE_MAX = 10
+
+export const categoryField = (name: string): AdjustableField => `category:${name}`
+
+export const FIELD_LABELS: Record<string, string> = {
+  risk_score: 'Risk score',
+  risk_level: 'Risk level',
+  participation_recommendation: 'Recommendation',
+}
+
+export const fieldLabel = (field: AdjustableField) => {
+  return field.startsWith('category:') ? `${field.slice('category:'.length)} risk` : FIELD_LABELS[field]
+}
+
+export const saveOverride = (reportId: number | string, input: OverrideInput) => {
+  return api.post<Report>(`/api/reports/${reportId}/overrides`, input)
+}
+
+export const listOverrideAudit = (reportId: number | string) => {
+  return api.get<OverrideAuditEntry[]>(`/api/reports/${reportId}/overrides/audit`)
+}
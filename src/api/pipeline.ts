@@ -0,0 +1,68 @@
+/**
+ * Bid pipeline: where each report stands after the recommendation, and how the bid ended
+ */
+import api from './client'
+
+export type PipelineStage = 'reviewing' | 'bidding' | 'submitted' | 'won' | 'lost' | 'withdrawn'
+
+export const PIPELINE_STAGES: PipelineStage[] = ['reviewing', 'bidding', 'submitted', 'won', 'lost', 'withdrawn']
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  reviewing: 'Reviewing',
+  bidding: 'Bidding',
+  submitted: 'Submitted',
+  won: 'Won',
+  lost: 'Lost',
+  withdrawn: 'Withdrawn',
+}
+
+// Won and lost bids record the final prices; withdrawn ones never reached an award
+export const OUTCOME_STAGES: PipelineStage[] = ['won', 'lost']
+
+export interface PipelineItem {
+  report_id: number
+  project_name: string
+  client_name: string
+  // Current values, including any human override
+  risk_score: number
+  risk_level: string
+  participation_recommendation: string
+  // What the AI said, for judging it against outcomes
+  ai_risk_score: number
+  ai_recommendation: string
+  deadline_date: string
+  budget_min: number
+  budget_max: number
+  stage: PipelineStage
+  submitted_price: number | null
+  winning_bid: number | null
+  updated_at: string
+}
+
+export interface StageTransition {
+  id: number
+  from_stage: PipelineStage | null
+  to_stage: PipelineStage
+  user_id: number
+  user_name: string
+  created_at: string
+}
+
+export interface StageChange {
+  stage: PipelineStage
+  submitted_price?: number
+  winning_bid?: number
+}
+
+export const listPipeline = (signal?: AbortSignal) => {
+  return api.get<{ items: PipelineItem[] }>('/api/pipeline', { signal })
+}
+
+// The server records who moved the report and when
+export const moveReport = (reportId: number, change: StageChange) => {
+  return api.post<PipelineItem>(`/api/reports/${reportId}/pipeline/transitions`, change)
+}
+
+export const listTransitions = (reportId: number) => {
+  return api.get<StageTransition[]>(`/api/reports/${reportId}/pipeline/transitions`)
+}
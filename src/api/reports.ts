@@ -0,0 +1,319 @@
+/**
+ * Report endpoints, plus the list query (paging, sorting and filters) shared by the API and the URL
+ */
+import api from './client'
+
+// Assessment values a person can override; each risk category's level is keyed `category:<name>`
+export type AdjustableField = 'risk_score' | 'risk_level' | 'participation_recommendation' | `category:${string}`
+
+// Extracted facts a person can correct when OCR or the analysis got them wrong
+export type EditableField =
+  | 'client_name'
+  | 'location'
+  | 'budget_min'
+  | 'budget_max'
+  | 'duration_months'
+  | 'deadline_date'
+  | 'award_date'
+  | 'start_date'
+  | 'requirements'
+  | 'guarantees'
+  | 'payment_terms'
+
+export interface AssessmentOverride {
+  ai_value: string | number
+  value: string | number
+  justification: string
+  overridden_by_name: string
+  overridden_at: string
+}
+
+export interface ReportSummary {
+  id: number
+  project_name: string
+  client_name: string
+  project_type: string
+  location: string
+  risk_score: number
+  risk_level: string
+  budget_avg: number
+  created_at: string
+  // Comments the signed-in user hasn't seen yet
+  unread_comments: number
+  adjusted_fields: AdjustableField[]
+}
+
+export interface Report {
+  id: number
+  project_name: string
+  client_name: string
+  location: string
+  project_type: string
+  budget_min: number
+  budget_max: number
+  duration_months: number
+  risk_score: number
+  risk_level: string
+  participation_recommendation: string
+  deadline_date: string
+  award_date: string
+  start_date: string
+  created_at: string
+  executive_summary: {
+    description: string
+    requirements: string[]
+    selection_method: string
+  }
+  cost_analysis: {
+    budget_breakdown: Array<{ category: string; amount: number; percentage: number }>
+    guarantees: Array<{ type: string; amount: number; percentage: number }>
+    payment_terms: { advance: number; progress: number; retention: number }
+    pricing_strategy: string
+  }
+  risk_assessment: {
+    categories: Array<{ name: string; level: string; items: string[] }>
+    red_flags: string[]
+    mitigation_actions: string[]
+  }
+  recommendations: {
+    strategic_advice: string
+    priority_actions: string[]
+  }
+  // The assessment fields above already hold the overridden values; this keeps the AI originals
+  overrides: Partial<Record<AdjustableField, AssessmentOverride>>
+  edited_fields: EditableField[]
+}
+
+// Requirements, guarantees and payment terms are replaced as a whole
+export interface ReportChanges {
+  client_name?: string
+  location?: string
+  budget_min?: number
+  budget_max?: number
+  duration_months?: number
+  deadline_date?: string
+  award_date?: string
+  start_date?: string
+  requirements?: string[]
+  guarantees?: Report['cost_analysis']['guarantees']
+  payment_terms?: Report['cost_analysis']['payment_terms']
+}
+
+// The subset of a report returned by the comparison endpoint
+export interface ComparisonReport {
+  id: number
+  project_name: string
+  client_name: string
+  location: string
+  budget_min: number
+  budget_max: number
+  duration_months: number
+  risk_score: number
+  risk_level: string
+  participation_recommendation: string
+  deadline_date: string
+  cost_analysis: Pick<Report['cost_analysis'], 'budget_breakdown' | 'guarantees' | 'payment_terms'>
+  risk_assessment: Pick<Report['risk_assessment'], 'categories' | 'red_flags'>
+  adjusted_fields: AdjustableField[]
+}
+
+export interface ReportPage {
+  reports: ReportSummary[]
+  total: number
+  page: number
+  page_size: number
+}
+
+export type ReportSortField = 'risk_score' | 'budget_avg' | 'created_at'
+export type SortDirection = 'asc' | 'desc'
+
+export interface ReportQuery {
+  page: number
+  pageSize: number
+  sortBy: ReportSortField
+  sortDir: SortDirection
+  search: string
+  riskLevel: string
+  riskMin: number
+  riskMax: number
+  projectType: string
+  location: string
+  clientName: string
+  dateFrom: string
+  dateTo: string
+  recommendation: string
+  // Relative window so saved views like "next 14 days" stay current
+  deadlineWithinDays: number
+}
+
+export const PAGE_SIZES = [10, 25, 50, 100]
+
+export const RISK_LEVELS = ['LOW', 'LOW-MEDIUM', 'MEDIUM', 'MEDIUM-HIGH', 'HIGH']
+
+export const RECOMMENDATIONS = ['YES', 'NO', 'CONDITIONAL']
+
+export const DEADLINE_WINDOWS = [7, 14, 30, 60, 90]
+
+const SORT_FIELDS: ReportSortField[] = ['risk_score', 'budget_avg', 'created_at']
+
+export const DEFAULT_REPORT_QUERY: ReportQuery = {
+  page: 1,
+  pageSize: 25,
+  sortBy: 'created_at',
+  sortDir: 'desc',
+  search: '',
+  riskLevel: '',
+  riskMin: 0,
+  riskMax: 0,
+  projectType: '',
+  location: '',
+  clientName: '',
+  dateFrom: '',
+  dateTo: '',
+  recommendation: '',
+  deadlineWithinDays: 0,
+}
+
+// Query field -> query-string/API parameter name
+const PARAM_NAMES: Record<keyof ReportQuery, string> = {
+  page: 'page',
+  pageSize: 'page_size',
+  sortBy: 'sort_by',
+  sortDir: 'sort_dir',
+  search: 'q',
+  riskLevel: 'risk_level',
+  riskMin: 'risk_min',
+  riskMax: 'risk_max',
+  projectType: 'project_type',
+  location: 'location',
+  clientName: 'client_name',
+  dateFrom: 'date_from',
+  dateTo: 'date_to',
+  recommendation: 'recommendation',
+  deadlineWithinDays: 'deadline_within_days',
+}
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+const parseRiskBound = (value: string | null) => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= 10 ? parsed : 0
+}
+
+// Bounds entered the wrong way round are swapped, so the URL and the request never hold an empty range
+const orderRanges = (query: ReportQuery): ReportQuery => {
+  const ordered = { ...query }
+  if (ordered.riskMin && ordered.riskMax && ordered.riskMin > ordered.riskMax) {
+    [ordered.riskMin, ordered.riskMax] = [ordered.riskMax, ordered.riskMin]
+  }
+  // YYYY-MM-DD compares correctly as text
+  if (ordered.dateFrom && ordered.dateTo && ordered.dateFrom > ordered.dateTo) {
+    [ordered.dateFrom, ordered.dateTo] = [ordered.dateTo, ordered.dateFrom]
+  }
+  return ordered
+}
+
+export const parseReportQuery = (params: URLSearchParams): ReportQuery => {
+  const sortBy = params.get(PARAM_NAMES.sortBy) as ReportSortField
+  const pageSize = parsePositiveInt(params.get(PARAM_NAMES.pageSize), DEFAULT_REPORT_QUERY.pageSize)
+  return orderRanges({
+    page: parsePositiveInt(params.get(PARAM_NAMES.page), DEFAULT_REPORT_QUERY.page),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_REPORT_QUERY.pageSize,
+    sortBy: SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_REPORT_QUERY.sortBy,
+    sortDir: params.get(PARAM_NAMES.sortDir) === 'asc' ? 'asc' : 'desc',
+    search: params.get(PARAM_NAMES.search) || '',
+    riskLevel: params.get(PARAM_NAMES.riskLevel) || '',
+    riskMin: parseRiskBound(params.get(PARAM_NAMES.riskMin)),
+    riskMax: parseRiskBound(params.get(PARAM_NAMES.riskMax)),
+    projectType: params.get(PARAM_NAMES.projectType) || '',
+    location: params.get(PARAM_NAMES.location) || '',
+    clientName: params.get(PARAM_NAMES.clientName) || '',
+    dateFrom: params.get(PARAM_NAMES.dateFrom) || '',
+    dateTo: params.get(PARAM_NAMES.dateTo) || '',
+    recommendation: params.get(PARAM_NAMES.recommendation) || '',
+    deadlineWithinDays: parsePositiveInt(params.get(PARAM_NAMES.deadlineWithinDays), 0),
+  })
+}
+
+// Only non-default values, so shared URLs stay short
+export const toSearchParams = (query: ReportQuery): URLSearchParams => {
+  const params = new URLSearchParams()
+  const ordered = orderRanges(query)
+  for (const key of Object.keys(PARAM_NAMES) as Array<keyof ReportQuery>) {
+    const value = ordered[key]
+    if (value !== '' && value !== DEFAULT_REPORT_QUERY[key]) {
+      params.set(PARAM_NAMES[key], String(value))
+    }
+  }
+  return params
+}
+
+export const hasActiveFilters = (query: ReportQuery): boolean => {
+  return !!(
+    query.search || query.riskLevel || query.riskMin || query.riskMax || query.projectType ||
+    query.location || query.clientName || query.dateFrom || query.dateTo || query.recommendation || query.deadlineWithinDays
+  )
+}
+
+export const clearFilters = (query: ReportQuery): ReportQuery => ({
+  ...DEFAULT_REPORT_QUERY,
+  pageSize: query.pageSize,
+  sortBy: query.sortBy,
+  sortDir: query.sortDir,
+})
+
+export const listReports = (query: ReportQuery, signal?: AbortSignal) => {
+  const params: Record<string, string | number> = {}
+  const ordered = orderRanges(query)
+  for (const key of Object.keys(PARAM_NAMES) as Array<keyof ReportQuery>) {
+    if (ordered[key] !== '' && ordered[key] !== 0) {
+      params[PARAM_NAMES[key]] = ordered[key]
+    }
+  }
+  return api.get<ReportPage>('/api/reports', { params, signal })
+}
+
+export const getReport = (id: number | string) => {
+  return api.get<Report>(`/api/reports/${id}`)
+}
+
+export const updateReport = (id: number | string, changes: ReportChanges) => {
+  return api.patch<Report>(`/api/reports/${id}`, changes)
+}
+
+// Columns on the Comparison page, in display order; pinned ones always come first
+export interface CompareSelection {
+  ids: number[]
+  pinned: number[]
+}
+
+export const MIN_COMPARE_REPORTS = 2
+export const MAX_COMPARE_REPORTS = 5
+
+const parseIds = (value: string | null) => {
+  const ids = (value || '').split(',').map(Number).filter(id => Number.isInteger(id) && id > 0)
+  return Array.from(new Set(ids))
+}
+
+export const parseCompareSelection = (params: URLSearchParams): CompareSelection => {
+  const ids = parseIds(params.get('ids')).slice(0, MAX_COMPARE_REPORTS)
+  const pinned = parseIds(params.get('pinned')).filter(id => ids.includes(id))
+  return {
+    ids: [...ids.filter(id => pinned.includes(id)), ...ids.filter(id => !pinned.includes(id))],
+    pinned,
+  }
+}
+
+export const toCompareSearchParams = ({ ids, pinned }: CompareSelection): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (ids.length > 0) params.set('ids', ids.join(','))
+  if (pinned.length > 0) params.set('pinned', pinned.join(','))
+  return params
+}
+
+export const compareReports = (ids: number[], signal?: AbortSignal) => {
+  return api.post<{ reports: ComparisonReport[] }>('/api/reports/compare', ids, { signal })
+}
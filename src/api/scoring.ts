@@ -0,0 +1,73 @@
+/**
+ * The organization's bid/no-bid scoring model, stored on the server
+ */
+import api, { toApiError } from './client'
+
+// A factor scored linearly: `best` and beyond earns full points, `worst` and beyond earns none.
+// Either end can be the larger number, e.g. fewer red flags is better but more days to the deadline is.
+export interface RangeFactor {
+  weight: number
+  best: number
+  worst: number
+}
+
+export interface BudgetFitFactor {
+  weight: number
+  // Contract values we can take on; anything inside scores full points
+  capacity_min: number
+  capacity_max: number
+  // How far outside the capacity range (in % of the nearest bound) the score drops to zero
+  tolerance_pct: number
+}
+
+export type RecommendationValue = 'YES' | 'CONDITIONAL' | 'NO'
+
+export interface RecommendationFactor {
+  weight: number
+  // 0-100 for each AI recommendation
+  points: Record<RecommendationValue, number>
+}
+
+export interface ScoringModel {
+  risk_score: RangeFactor
+  red_flags: RangeFactor
+  budget_fit: BudgetFitFactor
+  duration: RangeFactor
+  deadline: RangeFactor
+  recommendation: RecommendationFactor
+  updated_at?: string | null
+}
+
+export type ScoringFactorKey = Exclude<keyof ScoringModel, 'updated_at'>
+
+export const MAX_WEIGHT = 10
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  risk_score: { weight: 10, best: 2, worst: 8 },
+  red_flags: { weight: 5, best: 0, worst: 5 },
+  budget_fit: { weight: 4, capacity_min: 0, capacity_max: 25000000, tolerance_pct: 50 },
+  duration: { weight: 2, best: 12, worst: 36 },
+  deadline: { weight: 3, best: 30, worst: 5 },
+  recommendation: { weight: 7, points: { YES: 100, CONDITIONAL: 50, NO: 0 } },
+}
+
+// Fills in factors missing from an older saved model
+const withDefaults = (model: Partial<ScoringModel>): ScoringModel => ({
+  ...DEFAULT_SCORING_MODEL,
+  ...model,
+})
+
+export const getScoringModel = async (): Promise<ScoringModel> => {
+  try {
+    return withDefaults(await api.get<ScoringModel>('/api/scoring-model'))
+  } catch (err) {
+    // No model saved for the organization yet
+    if (toApiError(err).status === 404) return DEFAULT_SCORING_MODEL
+    throw err
+  }
+}
+
+// Errors reach the editor, so a model that didn't save is never mistaken for the organization's
+export const saveScoringModel = async (model: ScoringModel): Promise<ScoringModel> => {
+  return withDefaults(await api.put<ScoringModel>('/api/scoring-model', model))
+}
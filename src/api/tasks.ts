@@ -0,0 +1,46 @@
+/**
+ * Tracked tasks for a report's mitigation and priority actions
+ */
+import api from './client'
+
+export type TaskSource = 'mitigation' | 'priority'
+
+export interface ReportTask {
+  id: number
+  report_id: number
+  project_name: string
+  source: TaskSource
+  // The action text the task tracks; matched against the report's current actions
+  title: string
+  completed: boolean
+  completed_at: string | null
+  assignee_id: number | null
+  assignee_name: string | null
+  due_date: string | null
+  notes: string
+  updated_at: string
+}
+
+export type TaskInput = Pick<ReportTask, 'source' | 'title' | 'completed' | 'assignee_id' | 'due_date' | 'notes'>
+
+export type TaskChanges = Partial<Pick<ReportTask, 'completed' | 'assignee_id' | 'due_date' | 'notes'>>
+
+export const listReportTasks = (reportId: number | string) => {
+  return api.get<ReportTask[]>(`/api/reports/${reportId}/tasks`)
+}
+
+// Actions become tasks the first time someone ticks, assigns or annotates them
+export const createTask = (reportId: number | string, input: TaskInput) => {
+  return api.post<ReportTask>(`/api/reports/${reportId}/tasks`, input)
+}
+
+export const updateTask = (taskId: number, changes: TaskChanges) => {
+  return api.patch<ReportTask>(`/api/tasks/${taskId}`, changes)
+}
+
+export const listMyTasks = (includeCompleted: boolean, signal?: AbortSignal) => {
+  return api.get<ReportTask[]>('/api/tasks', {
+    params: { assignee: 'me', include_completed: includeCompleted },
+    signal,
+  })
+}
@@ -0,0 +1,139 @@
+/**
+ * Resumable chunked uploads for large tender documents
+ *
+ * The server keeps an upload session per file. Each chunk is PUT at its byte
+ * offset, so after a dropped connection we ask the server how much it has and
+ * continue from there. Session ids are kept in localStorage, which lets a retry
+ * (or re-selecting the same file after a reload) resume instead of restarting.
+ */
+import config from '../config'
+import api, { ApiError, toApiError } from './client'
+import { DocumentMetadata, EMPTY_METADATA, compactMetadata } from './documents'
+
+interface UploadSession {
+  upload_id: string
+  received_bytes: number
+}
+
+export interface ChunkedUploadOptions {
+  signal: AbortSignal
+  onProgress: (percent: number) => void
+  // Called with a message while waiting to retry a failed chunk, and with null once it goes through
+  onNotice?: (notice: string | null) => void
+  packageId?: number
+  metadata?: DocumentMetadata
+}
+
+const MAX_CHUNK_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 1000
+const SESSION_KEY_PREFIX = 'upload_session:'
+
+export const CHUNK_SIZE = Math.round(config.uploadChunkSizeMb * 1024 * 1024)
+
+// Same file picked again (even after a reload) maps to the same stored session, but only for the same
+// package and metadata: the server keeps those from when the session was opened
+const sessionKey = (file: File, options: ChunkedUploadOptions) => {
+  const target = JSON.stringify([options.packageId ?? null, compactMetadata(options.metadata || EMPTY_METADATA)])
+  return `${SESSION_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}:${target}`
+}
+
+const isRetryable = (err: ApiError) => {
+  return err.isNetworkError || err.status === 408 || err.status === 429 || (err.status !== null && err.status >= 500)
+}
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeout = setTimeout(resolve, ms)
+  signal.addEventListener('abort', () => {
+    clearTimeout(timeout)
+    reject(signal.reason)
+  }, { once: true })
+})
+
+const openSession = async (file: File, options: ChunkedUploadOptions): Promise<UploadSession> => {
+  const storedId = localStorage.getItem(sessionKey(file, options))
+  if (storedId) {
+    try {
+      return await api.get<UploadSession>(`/api/uploads/${storedId}`, { signal: options.signal })
+    } catch (err) {
+      // Expired or unknown session: start over
+      if (toApiError(err).status !== 404) throw err
+      localStorage.removeItem(sessionKey(file, options))
+    }
+  }
+
+  const session = await api.post<UploadSession>('/api/uploads', {
+    filename: file.name,
+    size: file.size,
+    content_type: file.type || 'application/pdf',
+    chunk_size: CHUNK_SIZE,
+    package_id: options.packageId ?? null,
+    ...compactMetadata(options.metadata || EMPTY_METADATA),
+  }, { signal: options.signal })
+  localStorage.setItem(sessionKey(file, options), session.upload_id)
+  return session
+}
+
+const sendChunk = async (file: File, uploadId: string, offset: number, options: ChunkedUploadOptions) => {
+  const end = Math.min(offset + CHUNK_SIZE, file.size)
+  const result = await api.put<UploadSession>(`/api/uploads/${uploadId}/chunks`, file.slice(offset, end), {
+    signal: options.signal,
+    params: { offset },
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Range': `bytes ${offset}-${end - 1}/${file.size}`,
+    },
+    onUploadProgress: (e) => {
+      options.onProgress(Math.floor(((offset + e.loaded) / file.size) * 100))
+    },
+  })
+  return result.received_bytes
+}
+
+// Uploads the file chunk by chunk and resolves with the created document id
+export const uploadInChunks = async (file: File, options: ChunkedUploadOptions): Promise<number> => {
+  const session = await openSession(file, options)
+  let offset = session.received_bytes
+  let attempt = 0
+  options.onProgress(Math.floor((offset / file.size) * 100))
+
+  while (offset < file.size) {
+    try {
+      offset = await sendChunk(file, session.upload_id, offset, options)
+      attempt = 0
+      options.onNotice?.(null)
+    } catch (err) {
+      if (options.signal.aborted) throw err
+      const apiError = toApiError(err)
+      attempt += 1
+
+      // The server's offset disagrees with ours; ask it where to continue. Resyncs count as
+      // attempts so a server that keeps answering 409 can't loop forever
+      if (apiError.status === 409) {
+        if (attempt >= MAX_CHUNK_ATTEMPTS) throw apiError
+        offset = (await api.get<UploadSession>(`/api/uploads/${session.upload_id}`, { signal: options.signal })).received_bytes
+        continue
+      }
+
+      if (!isRetryable(apiError) || attempt >= MAX_CHUNK_ATTEMPTS) throw apiError
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+      options.onNotice?.(`Connection lost, retrying (${attempt}/${MAX_CHUNK_ATTEMPTS - 1})...`)
+      await wait(delay, options.signal)
+
+      // Some bytes of the failed chunk may have landed; if the server is still
+      // unreachable, the next chunk attempt counts as another retry
+      try {
+        offset = (await api.get<UploadSession>(`/api/uploads/${session.upload_id}`, { signal: options.signal })).received_bytes
+      } catch (syncErr) {
+        if (options.signal.aborted) throw syncErr
+      }
+    }
+  }
+
+  const result = await api.post<{ document_id: number }>(`/api/uploads/${session.upload_id}/complete`, null, {
+    signal: options.signal,
+  })
+  localStorage.removeItem(sessionKey(file, options))
+  options.onNotice?.(null)
+  return result.document_id
+}
@@ -0,0 +1,16 @@
+/**
+ * Colleague directory, for assigning tasks; role management stays on the admin-only /api/users
+ */
+import api from './client'
+
+export interface Colleague {
+  id: number
+  full_name: string
+  email: string
+}
+
+export const colleagueName = (colleague: Colleague) => colleague.full_name || colleague.email
+
+export const listColleagues = async () => {
+  return (await api.get<{ users: Colleague[] }>('/api/users/directory')).users
+}
@@ -0,0 +1,36 @@
+/**
+ * Report versions: the original analysis plus one re-analysis per tender addendum
+ */
+import { AxiosRequestConfig } from 'axios'
+import api from './client'
+import { AnalysisJobStatus, UploadResponse } from './documents'
+import { Report } from './reports'
+
+export interface ReportVersion {
+  version: number
+  source: 'original' | 'addendum'
+  filename: string
+  document_id: number
+  // Addenda are re-analyzed in the background, so the newest version may not be ready yet
+  status: AnalysisJobStatus
+  created_at: string
+}
+
+export const listReportVersions = (reportId: number | string) => {
+  return api.get<ReportVersion[]>(`/api/reports/${reportId}/versions`)
+}
+
+export const getReportVersion = (reportId: number | string, version: number, signal?: AbortSignal) => {
+  return api.get<Report>(`/api/reports/${reportId}/versions/${version}`, { signal })
+}
+
+// Attaches an addendum to the report and queues a re-analysis that produces a new version
+export const uploadAddendum = (reportId: number | string, formData: FormData, config?: AxiosRequestConfig) => {
+  return api.post<UploadResponse>(`/api/reports/${reportId}/addenda`, formData, {
+    ...config,
+    headers: {
+      'Content-Type': 'multipart/form-data',
+      ...config?.headers,
+    },
+  })
+}
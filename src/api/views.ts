@@ -0,0 +1,76 @@
+/**
+ * Saved Dashboard views, stored per user on the server, or in localStorage where the server has no views API
+ */
+import api, { toApiError } from './client'
+
+export interface SavedView {
+  id: string
+  name: string
+  // Report list query string, as produced by toSearchParams
+  params: string
+  is_default: boolean
+}
+
+export type SavedViewInput = Omit<SavedView, 'id'>
+
+const localKey = (userId: number) => `saved_views:${userId}`
+
+const readLocal = (userId: number): SavedView[] => {
+  const stored = localStorage.getItem(localKey(userId))
+  return stored ? JSON.parse(stored) : []
+}
+
+const writeLocal = (userId: number, views: SavedView[]) => {
+  localStorage.setItem(localKey(userId), JSON.stringify(views))
+}
+
+// Only a server without the views API falls back; outages and other errors reach the caller,
+// and every call tries the server again
+const shouldFallBack = (err: unknown) => [404, 501].includes(toApiError(err).status ?? 0)
+
+const withFallback = async <T>(remote: () => Promise<T>, local: () => T): Promise<T> => {
+  try {
+    return await remote()
+  } catch (err) {
+    if (!shouldFallBack(err)) throw err
+    console.warn('Saved views API unavailable, using local storage:', err)
+    return local()
+  }
+}
+
+// Views kept in this browser only, so the user can be told they aren't shared
+export const isLocalView = (view: SavedView) => view.id.startsWith('local-')
+
+// Only one view can be the landing view
+const withSingleDefault = (views: SavedView[], defaultId: string | null) => {
+  return views.map(v => ({ ...v, is_default: v.id === defaultId }))
+}
+
+export const listViews = (userId: number) => withFallback(
+  async () => (await api.get<{ views: SavedView[] }>('/api/views')).views,
+  () => readLocal(userId)
+)
+
+export const createView = (userId: number, input: SavedViewInput) => withFallback(
+  () => api.post<SavedView>('/api/views', input),
+  () => {
+    const view: SavedView = { ...input, id: `local-${Date.now()}` }
+    const views = [...readLocal(userId), view]
+    writeLocal(userId, input.is_default ? withSingleDefault(views, view.id) : views)
+    return view
+  }
+)
+
+export const setDefaultView = (userId: number, viewId: string | null) => withFallback(
+  async () => (await api.put<{ views: SavedView[] }>('/api/views/default', { view_id: viewId })).views,
+  () => {
+    const views = withSingleDefault(readLocal(userId), viewId)
+    writeLocal(userId, views)
+    return views
+  }
+)
+
+export const deleteView = (userId: number, viewId: string) => withFallback(
+  () => api.delete<void>(`/api/views/${viewId}`),
+  () => writeLocal(userId, readLocal(userId).filter(v => v.id !== viewId))
+)
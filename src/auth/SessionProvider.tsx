@@ -0,0 +1,209 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import api, { setUnauthorizedHandler } from '../api/client'
+import SessionExpiryModal from '../components/SessionExpiryModal'
+import { Permission, User, hasPermission } from './roles'
+import {
+  TOKEN_KEY,
+  USER_KEY,
+  clearSession,
+  getStoredUser,
+  getToken,
+  getTokenExpiry,
+  isTokenExpired,
+  loginPath,
+  safeRedirect,
+  saveSession,
+  saveToken,
+} from './session'
+
+interface SessionContextValue {
+  token: string | null
+  user: User | null
+  isAuthenticated: boolean
+  can: (permission: Permission) => boolean
+  login: (token: string, user: User) => void
+  logout: () => void
+}
+
+// Try to refresh this long before the token runs out
+const REFRESH_LEAD_MS = 2 * 60 * 1000
+// Spread refreshes from several open tabs so usually only one hits the server
+const REFRESH_JITTER_MS = 10 * 1000
+// setTimeout fires immediately for delays that overflow a 32-bit int
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+const SessionContext = createContext<SessionContextValue | null>(null)
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [token, setToken] = useState<string | null>(getToken)
+  const [user, setUser] = useState<User | null>(getStoredUser)
+  const [showWarning, setShowWarning] = useState(false)
+  const [refreshing, setRefreshing] = useState(false)
+  const [refreshError, setRefreshError] = useState('')
+
+  // Timers and storage listeners read these instead of stale closures
+  const tokenRef = useRef(token)
+  const locationRef = useRef(location)
+  tokenRef.current = token
+  locationRef.current = location
+
+  const currentPath = () => locationRef.current.pathname + locationRef.current.search
+
+  // End the session and send the user to login, returning them here afterwards
+  const expireSession = useCallback(() => {
+    clearSession()
+    setToken(null)
+    setUser(null)
+    setShowWarning(false)
+    if (locationRef.current.pathname !== '/login') {
+      navigate(loginPath(currentPath()), { replace: true, state: { sessionExpired: true } })
+    }
+  }, [navigate])
+
+  const login = useCallback((newToken: string, newUser: User) => {
+    saveSession(newToken, newUser)
+    setToken(newToken)
+    setUser(newUser)
+  }, [])
+
+  const logout = useCallback(() => {
+    clearSession()
+    setToken(null)
+    setUser(null)
+    setShowWarning(false)
+    navigate('/login')
+  }, [navigate])
+
+  const refreshToken = useCallback(async (): Promise<boolean> => {
+    const current = getToken()
+    if (!current) return false
+    try {
+      const data = await api.post<{ access_token: string }>('/api/auth/refresh')
+      const oldExpiry = getTokenExpiry(current)
+      const newExpiry = data.access_token ? getTokenExpiry(data.access_token) : null
+      // A token that doesn't outlive the current one would just refresh again immediately
+      if (!data.access_token || (oldExpiry !== null && newExpiry !== null && newExpiry <= oldExpiry)) {
+        return false
+      }
+      saveToken(data.access_token)
+      setToken(data.access_token)
+      return true
+    } catch (err) {
+      console.error('Error refreshing session:', err)
+      return false
+    }
+  }, [])
+
+  // Schedule the silent refresh and the hard expiry for the current token
+  useEffect(() => {
+    setShowWarning(false)
+    setRefreshError('')
+    if (!token) return
+
+    const expiry = getTokenExpiry(token)
+    if (expiry === null) return
+
+    const now = Date.now()
+    if (expiry <= now) {
+      expireSession()
+      return
+    }
+    if (expiry - now > MAX_TIMEOUT_MS) return
+
+    const refreshIn = Math.max(expiry - REFRESH_LEAD_MS - Math.random() * REFRESH_JITTER_MS - now, 0)
+    const refreshTimer = setTimeout(async () => {
+      // Another tab may already have refreshed the shared token
+      const latest = getToken()
+      if (latest && latest !== token) {
+        setToken(latest)
+        return
+      }
+      if (!(await refreshToken())) {
+        setShowWarning(true)
+      }
+    }, refreshIn)
+    const expiryTimer = setTimeout(expireSession, expiry - now)
+
+    return () => {
+      clearTimeout(refreshTimer)
+      clearTimeout(expiryTimer)
+    }
+  }, [token, refreshToken, expireSession])
+
+  // Keep login, logout and refreshed tokens in sync across open tabs
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      // key is null when another tab calls localStorage.clear()
+      if (e.key !== null && e.key !== TOKEN_KEY && e.key !== USER_KEY) return
+
+      const latest = getToken()
+      if (!latest) {
+        if (tokenRef.current) expireSession()
+        return
+      }
+
+      const signedInElsewhere = !tokenRef.current
+      setToken(latest)
+      setUser(getStoredUser())
+      if (signedInElsewhere && locationRef.current.pathname === '/login') {
+        const redirect = new URLSearchParams(locationRef.current.search).get('redirect')
+        navigate(safeRedirect(redirect), { replace: true })
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [navigate, expireSession])
+
+  useEffect(() => {
+    // The API client already cleared storage; sync state and send the user to login
+    setUnauthorizedHandler(() => expireSession())
+    return () => setUnauthorizedHandler(null)
+  }, [expireSession])
+
+  const handleStaySignedIn = async () => {
+    setRefreshing(true)
+    setRefreshError('')
+    const ok = await refreshToken()
+    setRefreshing(false)
+    if (!ok) {
+      setRefreshError('Could not extend your session. Save your work and sign in again.')
+    }
+  }
+
+  const expiresAt = token ? getTokenExpiry(token) : null
+  const value: SessionContextValue = {
+    token,
+    user,
+    isAuthenticated: !!token && !isTokenExpired(token),
+    can: (permission) => hasPermission(user, permission),
+    login,
+    logout,
+  }
+
+  return (
+    <SessionContext.Provider value={value}>
+      {children}
+      {showWarning && expiresAt !== null && (
+        <SessionExpiryModal
+          expiresAt={expiresAt}
+          refreshing={refreshing}
+          error={refreshError}
+          onStaySignedIn={handleStaySignedIn}
+          onLogout={logout}
+        />
+      )}
+    </SessionContext.Provider>
+  )
+}
+
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext)
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider')
+  }
+  return context
+}
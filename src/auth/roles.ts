@@ -0,0 +1,82 @@
+/**
+ * User roles and the permissions each role grants
+ */
+
+export type Role = 'viewer' | 'estimator' | 'bid_manager' | 'admin'
+
+export type Permission =
+  | 'reports:view'
+  | 'documents:upload'
+  | 'reports:edit'
+  | 'assessment:override'
+  | 'pipeline:manage'
+  | 'tasks:manage'
+  | 'scoring:manage'
+  | 'analytics:view'
+  | 'users:manage'
+
+export interface User {
+  id: number
+  email: string
+  full_name: string
+  role: Role
+}
+
+export const ROLES: Role[] = ['viewer', 'estimator', 'bid_manager', 'admin']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  estimator: 'Estimator',
+  bid_manager: 'Bid Manager',
+  admin: 'Admin',
+}
+
+// assessment:override is for bid managers. Admins keep it on purpose: they hold every bid manager
+// permission so they can stand in for one
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['reports:view'],
+  estimator: ['reports:view', 'documents:upload', 'reports:edit', 'pipeline:manage', 'tasks:manage'],
+  bid_manager: [
+    'reports:view', 'documents:upload', 'reports:edit', 'pipeline:manage', 'tasks:manage', 'assessment:override', 'scoring:manage', 'analytics:view',
+  ],
+  admin: [
+    'reports:view', 'documents:upload', 'reports:edit', 'pipeline:manage', 'tasks:manage', 'assessment:override', 'scoring:manage', 'analytics:view',
+    'users:manage',
+  ],
+}
+
+// Unknown or missing roles get the least privileged role
+export const normalizeRole = (role: unknown): Role => {
+  const value = typeof role === 'string' ? role.toLowerCase().replace(/[\s-]/g, '_') : ''
+  return ROLES.includes(value as Role) ? (value as Role) : 'viewer'
+}
+
+// The user as the API sends it; the role may be spelled differently or be missing
+export interface RawUser {
+  id: number
+  email: string
+  full_name?: string | null
+  role?: unknown
+}
+
+const isRawUser = (raw: unknown): raw is RawUser => {
+  if (typeof raw !== 'object' || raw === null) return false
+  const candidate = raw as Record<string, unknown>
+  return typeof candidate.id === 'number' && typeof candidate.email === 'string'
+}
+
+// Null when the payload isn't a user at all
+export const normalizeUser = (raw: unknown): User | null => {
+  if (!isRawUser(raw)) return null
+  return {
+    id: raw.id,
+    email: raw.email,
+    full_name: typeof raw.full_name === 'string' ? raw.full_name : '',
+    role: normalizeRole(raw.role),
+  }
+}
+
+export const hasPermission = (user: User | null, permission: Permission): boolean => {
+  if (!user) return false
+  return ROLE_PERMISSIONS[user.role].includes(permission)
+}
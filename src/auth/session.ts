@@ -0,0 +1,79 @@
+/**
+ * Session storage helpers for the auth token and the signed-in user
+ */
+import { User, normalizeUser } from './roles'
+
+export const TOKEN_KEY = 'auth_token'
+export const USER_KEY = 'user'
+
+export interface TokenPayload {
+  sub?: string
+  exp?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+export const getToken = (): string | null => {
+  return localStorage.getItem(TOKEN_KEY)
+}
+
+export const getStoredUser = (): User | null => {
+  const userStr = localStorage.getItem(USER_KEY)
+  if (!userStr) return null
+  try {
+    return normalizeUser(JSON.parse(userStr))
+  } catch (err) {
+    // Corrupt or written by something else; drop it rather than fail app start
+    console.error('Error reading stored user:', err)
+    localStorage.removeItem(USER_KEY)
+    return null
+  }
+}
+
+export const saveSession = (token: string, user: User) => {
+  localStorage.setItem(TOKEN_KEY, token)
+  localStorage.setItem(USER_KEY, JSON.stringify(user))
+}
+
+// Replace the token after a refresh while keeping the stored user
+export const saveToken = (token: string) => {
+  localStorage.setItem(TOKEN_KEY, token)
+}
+
+export const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY)
+  localStorage.removeItem(USER_KEY)
+}
+
+// Decode the JWT payload without verifying it; the server does that
+export const decodeToken = (token: string): TokenPayload | null => {
+  const payload = token.split('.')[1]
+  if (!payload) return null
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=')
+    return JSON.parse(atob(padded))
+  } catch {
+    return null
+  }
+}
+
+// Expiry as epoch milliseconds, or null when the token carries no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeToken(token)?.exp
+  return typeof exp === 'number' ? exp * 1000 : null
+}
+
+export const isTokenExpired = (token: string, now: number = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token)
+  return expiry !== null && expiry <= now
+}
+
+// Login URL that returns the user to `from` after signing in
+export const loginPath = (from: string) => `/login?redirect=${encodeURIComponent(from)}`
+
+// Only allow same-app paths as post-login destinations
+export const safeRedirect = (redirect: string | null): string => {
+  if (!redirect || !redirect.startsWith('/') || redirect.startsWith('//')) return '/'
+  return redirect
+}
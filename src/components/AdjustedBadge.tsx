@@ -0,0 +1,15 @@
+interface AdjustedBadgeProps {
+  // Shown on hover, e.g. the AI value that was overridden
+  title?: string
+}
+
+export default function AdjustedBadge({ title = 'Adjusted by a person from the AI value' }: AdjustedBadgeProps) {
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide bg-purple-100 text-purple-800"
+      title={title}
+    >
+      ✎ Adjusted
+    </span>
+  )
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react'
+import { toApiError } from '../api/client'
+import {
+  OverrideAuditEntry,
+  RISK_SCORE_MAX,
+  RISK_SCORE_MIN,
+  categoryField,
+  fieldLabel,
+  listOverrideAudit,
+  saveOverride,
+} from '../api/overrides'
+import { AdjustableField, RECOMMENDATIONS, RISK_LEVELS, Report } from '../api/reports'
+import AdjustedBadge from './AdjustedBadge'
+
+interface AssessmentOverridesProps {
+  report: Report
+  onSaved: (report: Report) => void
+}
+
+const currentValue = (report: Report, field: AdjustableField): string | number => {
+  if (field === 'risk_score') return report.risk_score
+  if (field === 'risk_level') return report.risk_level
+  if (field === 'participation_recommendation') return report.participation_recommendation
+  const name = field.slice('category:'.length)
+  return report.risk_assessment.categories.find(category => category.name === name)?.level ?? ''
+}
+
+const formatValue = (field: AdjustableField, value: string | number) => {
+  return field === 'risk_score' ? Number(value).toFixed(1) : String(value)
+}
+
+const optionsFor = (field: AdjustableField) => {
+  return field === 'participation_recommendation' ? RECOMMENDATIONS : RISK_LEVELS
+}
+
+export default function AssessmentOverrides({ report, onSaved }: AssessmentOverridesProps) {
+  const [audit, setAudit] = useState<OverrideAuditEntry[]>([])
+  const [editing, setEditing] = useState<AdjustableField | null>(null)
+  const [valueDraft, setValueDraft] = useState('')
+  const [justification, setJustification] = useState('')
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadAudit()
+  }, [report.id])
+
+  const loadAudit = async () => {
+    try {
+      setAudit(await listOverrideAudit(report.id))
+    } catch (err) {
+      console.error('Error loading override audit log:', err)
+    }
+  }
+
+  const fields: AdjustableField[] = [
+    'risk_score',
+    'risk_level',
+    'participation_recommendation',
+    ...report.risk_assessment.categories.map(category => categoryField(category.name)),
+  ]
+
+  const startEdit = (field: AdjustableField) => {
+    setEditing(field)
+    setValueDraft(String(currentValue(report, field)))
+    setJustification('')
+    setError('')
+  }
+
+  // Passing null restores the AI value
+  const submit = async (field: AdjustableField, value: string | number | null) => {
+    if (!justification.trim()) {
+      setError('A justification is required')
+      return
+    }
+    if (field === 'risk_score' && value !== null) {
+      const score = Number(value)
+      if (valueDraft.trim() === '' || !Number.isFinite(score) || score < RISK_SCORE_MIN || score > RISK_SCORE_MAX) {
+        setError(`Risk score must be between ${RISK_SCORE_MIN} and ${RISK_SCORE_MAX}`)
+        return
+      }
+      value = Math.round(score * 10) / 10
+    }
+    setSaving(true)
+    try {
+      onSaved(await saveOverride(report.id, { field, value, justification: justification.trim() }))
+      setEditing(null)
+      loadAudit()
+    } catch (err) {
+      console.error('Error saving override:', err)
+      setError(toApiError(err).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-1">🧑‍⚖️ Assessment Overrides</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        The AI assessment next to any human adjustment. Adjusted values are used across the Dashboard, comparisons and exports.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">AI value</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Human value</th>
+              <th className="px-4 py-2"><span className="sr-only">Actions</span></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {fields.map(field => {
+              const override = report.overrides[field]
+              const aiValue = override ? override.ai_value : currentValue(report, field)
+              return (
+                <tr key={field} className="align-top">
+                  <td className="px-4 py-3 font-medium text-gray-900">{fieldLabel(field)}</td>
+                  <td className="px-4 py-3 text-gray-700">{formatValue(field, aiValue)}</td>
+                  <td className="px-4 py-3">
+                    {override ? (
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900">{formatValue(field, override.value)}</span>
+                          <AdjustedBadge />
+                        </div>
+                        <p className="text-xs text-gray-600 mt-1">“{override.justification}”</p>
+                        <p className="text-xs text-gray-400">
+                          {override.overridden_by_name} · {new Date(override.overridden_at).toLocaleString()}
+                        </p>
+                      </div>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+
+                    {editing === field && (
+                      <div className="mt-3 space-y-2">
+                        <label htmlFor={`override-${field}`} className="block text-xs font-medium text-gray-600">New value</label>
+                        {field === 'risk_score' ? (
+                          <input
+                            id={`override-${field}`}
+                            type="number"
+                            min={RISK_SCORE_MIN}
+                            max={RISK_SCORE_MAX}
+                            step={0.1}
+                            value={valueDraft}
+                            onChange={(e) => setValueDraft(e.target.value)}
+                            className="w-32 px-3 py-2 border border-gray-300 rounded-lg"
+                          />
+                        ) : (
+                          <select
+                            id={`override-${field}`}
+                            value={valueDraft}
+                            onChange={(e) => setValueDraft(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                          >
+                            {optionsFor(field).map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        )}
+                        <label htmlFor={`override-${field}-why`} className="block text-xs font-medium text-gray-600">
+                          Justification (required)
+                        </label>
+                        <textarea
+                          id={`override-${field}-why`}
+                          rows={2}
+                          value={justification}
+                          onChange={(e) => setJustification(e.target.value)}
+                          placeholder="Why does this differ from the AI assessment?"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                        {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            onClick={() => submit(field, valueDraft)}
+                            disabled={saving}
+                            className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-xs font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+                          >
+                            {saving ? 'Saving...' : 'Save override'}
+                          </button>
+                          {override && (
+                            <button
+                              onClick={() => submit(field, null)}
+                              disabled={saving}
+                              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-xs text-gray-700"
+                            >
+                              Restore AI value
+                            </button>
+                          )}
+                          <button onClick={() => setEditing(null)} className="px-3 py-1 text-xs text-gray-600 hover:text-gray-900">
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {editing !== field && (
+                      <button onClick={() => startEdit(field)} className="text-xs text-blue-600 hover:text-blue-800 font-medium whitespace-nowrap">
+                        {override ? 'Change' : 'Override'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="font-semibold text-gray-900 mt-6 mb-2">Audit Log</h3>
+      {audit.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes to the AI assessment yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {audit.map(entry => (
+            <li key={entry.id} className="text-sm border-l-4 border-purple-200 pl-3">
+              <div className="text-gray-800">
+                <span className="font-medium">{entry.user_name}</span> changed {fieldLabel(entry.field).toLowerCase()} from{' '}
+                <strong>{formatValue(entry.field, entry.previous_value ?? entry.ai_value)}</strong> to{' '}
+                <strong>
+                  {entry.new_value === null ? `the AI value (${formatValue(entry.field, entry.ai_value)})` : formatValue(entry.field, entry.new_value)}
+                </strong>
+              </div>
+              <div className="text-xs text-gray-600">“{entry.justification}”</div>
+              <div className="text-xs text-gray-400">{new Date(entry.created_at).toLocaleString()}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { PipelineItem, PipelineStage, STAGE_LABELS, StageChange } from '../api/pipeline'
+
+interface BidOutcomeModalProps {
+  item: PipelineItem
+  stage: PipelineStage
+  onConfirm: (change: StageChange) => void
+  onCancel: () => void
+}
+
+export default function BidOutcomeModal({ item, stage, onConfirm, onCancel }: BidOutcomeModalProps) {
+  const [submittedPrice, setSubmittedPrice] = useState(item.submitted_price ? String(item.submitted_price) : '')
+  const [winningBid, setWinningBid] = useState(item.winning_bid ? String(item.winning_bid) : '')
+  const [error, setError] = useState('')
+
+  const handleConfirm = () => {
+    const submitted = Number(submittedPrice)
+    // A won bid is the winning bid unless the user says otherwise
+    const winning = stage === 'won' && !winningBid ? submitted : Number(winningBid)
+    if (!submittedPrice || !Number.isFinite(submitted) || submitted <= 0) {
+      setError('Enter the final price you submitted')
+      return
+    }
+    if (!Number.isFinite(winning) || winning <= 0) {
+      setError('Enter the winning bid')
+      return
+    }
+    onConfirm({ stage, submitted_price: submitted, winning_bid: winning })
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-40 flex items-center justify-center p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bid-outcome-title"
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-md"
+      >
+        <h2 id="bid-outcome-title" className="text-xl font-bold text-gray-900 mb-1">
+          Mark as {STAGE_LABELS[stage]}
+        </h2>
+        <p className="text-gray-600 mb-4">{item.project_name}</p>
+
+        <div className="space-y-4 mb-4">
+          <div>
+            <label htmlFor="submitted-price" className="block text-sm font-medium text-gray-700 mb-1">
+              Final submitted price ($)
+            </label>
+            <input
+              id="submitted-price"
+              type="number"
+              min={0}
+              autoFocus
+              value={submittedPrice}
+              onChange={(e) => setSubmittedPrice(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label htmlFor="winning-bid" className="block text-sm font-medium text-gray-700 mb-1">
+              Winning bid ($)
+            </label>
+            <input
+              id="winning-bid"
+              type="number"
+              min={0}
+              placeholder={stage === 'won' ? 'Same as submitted price' : ''}
+              value={winningBid}
+              onChange={(e) => setWinningBid(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+          >
+            Save Outcome
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
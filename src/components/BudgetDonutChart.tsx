@@ -0,0 +1,56 @@
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts'
+import { BudgetSlice } from '../utils/costCharts'
+import { formatCurrency } from '../utils/format'
+
+interface BudgetDonutChartProps {
+  slices: BudgetSlice[]
+  total: number
+}
+
+export default function BudgetDonutChart({ slices, total }: BudgetDonutChartProps) {
+  const description = slices.map(slice => `${slice.name} ${slice.percentage}%`).join(', ')
+
+  return (
+    <figure aria-label={`Budget breakdown: ${description}`}>
+      <div className="relative h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart accessibilityLayer>
+            <Pie
+              data={slices}
+              dataKey="value"
+              nameKey="name"
+              innerRadius="60%"
+              outerRadius="90%"
+              paddingAngle={1}
+              isAnimationActive={false}
+            >
+              {slices.map(slice => (
+                <Cell key={slice.name} fill={slice.color} />
+              ))}
+            </Pie>
+            <Tooltip
+              formatter={(value: number, name: string) => [
+                `${formatCurrency(value)} (${slices.find(slice => slice.name === name)?.percentage ?? 0}%)`,
+                name,
+              ]}
+            />
+          </PieChart>
+        </ResponsiveContainer>
+        <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+          <span className="text-xs text-gray-500">Total</span>
+          <span className="text-lg font-bold text-gray-900">{formatCurrency(total)}</span>
+        </div>
+      </div>
+      <figcaption className="mt-3 space-y-1">
+        {slices.map(slice => (
+          <div key={slice.name} className="flex items-center gap-2 text-sm">
+            <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: slice.color }}></span>
+            <span className="flex-1 text-gray-700">{slice.name}</span>
+            <span className="text-gray-500">{slice.percentage}%</span>
+            <span className="font-medium text-gray-900 min-w-[100px] text-right">{formatCurrency(slice.value)}</span>
+          </div>
+        ))}
+      </figcaption>
+    </figure>
+  )
+}
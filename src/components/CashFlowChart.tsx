@@ -0,0 +1,53 @@
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { CashFlowPoint, PAYMENT_COLORS } from '../utils/costCharts'
+import { formatCompact, formatCurrency } from '../utils/format'
+
+interface CashFlowChartProps {
+  points: CashFlowPoint[]
+}
+
+const SERIES = [
+  { key: 'advance', label: 'Advance' },
+  { key: 'progress', label: 'Progress' },
+  { key: 'retention', label: 'Retention' },
+] as const
+
+export default function CashFlowChart({ points }: CashFlowChartProps) {
+  const last = points[points.length - 1]
+
+  return (
+    <figure aria-label={`Cumulative payments received over ${last.month} months, reaching ${formatCurrency(last.total)}`}>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={points} margin={{ top: 10, right: 10, left: 0, bottom: 0 }} accessibilityLayer>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="month" tick={{ fontSize: 12 }} label={{ value: 'Month', position: 'insideBottomRight', offset: -2, fontSize: 12 }} />
+            <YAxis tickFormatter={formatCompact} tick={{ fontSize: 12 }} width={60} />
+            <Tooltip
+              labelFormatter={(month) => `Month ${month}`}
+              formatter={(value: number, name: string) => [formatCurrency(value), name]}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {SERIES.map(series => (
+              <Area
+                key={series.key}
+                type="linear"
+                dataKey={series.key}
+                name={series.label}
+                stackId="payments"
+                stroke={PAYMENT_COLORS[series.key]}
+                fill={PAYMENT_COLORS[series.key]}
+                fillOpacity={0.35}
+                isAnimationActive={false}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+      <figcaption className="mt-2 text-xs text-gray-500">
+        Cumulative payments on the mid-range contract value: advance on award, progress billed evenly
+        each month, retention released on completion.
+      </figcaption>
+    </figure>
+  )
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react'
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Report } from '../api/reports'
+import { DEFAULT_ASSUMPTIONS, SimulationAssumptions, simulateCashFlow } from '../utils/cashFlowSimulator'
+import { formatCompact, formatCurrency } from '../utils/format'
+
+interface CashFlowSimulatorProps {
+  report: Report
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm'
+
+export default function CashFlowSimulator({ report }: CashFlowSimulatorProps) {
+  const [assumptions, setAssumptions] = useState<SimulationAssumptions>(DEFAULT_ASSUMPTIONS)
+
+  const result = simulateCashFlow(report, assumptions)
+  // Cash out is plotted below the axis so net flow reads at a glance
+  const chartData = result.months.map(month => ({ ...month, cash_out: -month.cash_out }))
+
+  const setAssumption = (key: keyof SimulationAssumptions, value: string) => {
+    setAssumptions(prev => ({ ...prev, [key]: Math.max(Number(value) || 0, 0) }))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">🧮 Cash Flow & Bonding Simulator</h2>
+          <p className="text-sm text-gray-600">
+            Projects monthly cash on a {formatCurrency(result.contract_value)} contract (mid-range budget). Costs are spent
+            evenly over {report.duration_months} months; the advance arrives on award.
+          </p>
+        </div>
+        <button
+          onClick={() => setAssumptions(DEFAULT_ASSUMPTIONS)}
+          className="text-sm text-gray-600 hover:text-gray-900 whitespace-nowrap"
+        >
+          Reset assumptions
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <label htmlFor="sim-margin" className="block text-xs font-medium text-gray-600 mb-1">Margin (%)</label>
+          <input
+            id="sim-margin"
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={assumptions.margin_pct}
+            onChange={(e) => setAssumption('margin_pct', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="sim-delay" className="block text-xs font-medium text-gray-600 mb-1">Payment delay (months)</label>
+          <input
+            id="sim-delay"
+            type="number"
+            min={0}
+            max={12}
+            value={assumptions.payment_delay_months}
+            onChange={(e) => setAssumption('payment_delay_months', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="sim-retention" className="block text-xs font-medium text-gray-600 mb-1">Retention released after completion (months)</label>
+          <input
+            id="sim-retention"
+            type="number"
+            min={0}
+            max={36}
+            value={assumptions.retention_release_months}
+            onChange={(e) => setAssumption('retention_release_months', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="sim-bonding" className="block text-xs font-medium text-gray-600 mb-1">Available bonding capacity ($)</label>
+          <input
+            id="sim-bonding"
+            type="number"
+            min={0}
+            step={50000}
+            placeholder="Not set"
+            value={assumptions.bonding_capacity || ''}
+            onChange={(e) => setAssumption('bonding_capacity', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6" aria-live="polite">
+        <div className="bg-red-50 rounded-lg p-3">
+          <div className="text-xs text-gray-600">Peak working capital</div>
+          <div className="text-xl font-bold text-red-700">{formatCurrency(result.peak_working_capital)}</div>
+          <div className="text-xs text-gray-500">
+            {result.peak_month === null ? 'Never cash-negative' : `in month ${result.peak_month}`}
+          </div>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-xs text-gray-600">Cash positive from</div>
+          <div className="text-xl font-bold text-blue-700">
+            {result.break_even_month === null ? 'Never' : `Month ${result.break_even_month}`}
+          </div>
+          <div className="text-xs text-gray-500">Stays at or above zero</div>
+        </div>
+        <div className="bg-yellow-50 rounded-lg p-3">
+          <div className="text-xs text-gray-600">Retention released</div>
+          <div className="text-xl font-bold text-yellow-700">Month {result.retention_release_month}</div>
+          <div className="text-xs text-gray-500">{formatCurrency(result.retention_amount)}</div>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <div className="text-xs text-gray-600">Projected profit</div>
+          <div className="text-xl font-bold text-green-700">{formatCurrency(result.profit)}</div>
+          <div className="text-xs text-gray-500">At {assumptions.margin_pct}% margin</div>
+        </div>
+      </div>
+
+      <figure
+        className="h-72 mb-6"
+        aria-label={`Monthly cash in and out with the cumulative position; peak working capital ${formatCurrency(result.peak_working_capital)}`}
+      >
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }} accessibilityLayer>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+            <YAxis tickFormatter={formatCompact} tick={{ fontSize: 12 }} width={60} />
+            <Tooltip
+              labelFormatter={(month) => `Month ${month}`}
+              formatter={(value: number, name: string) => [formatCurrency(Math.abs(value)), name]}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <ReferenceLine
+              x={result.retention_release_month}
+              stroke="#ca8a04"
+              strokeDasharray="4 4"
+              label={{ value: 'Retention', position: 'top', fontSize: 11, fill: '#a16207' }}
+            />
+            <Bar dataKey="cash_in" name="Cash in" fill="#22c55e" isAnimationActive={false} />
+            <Bar dataKey="cash_out" name="Cash out" fill="#ef4444" isAnimationActive={false} />
+            <Line dataKey="cumulative" name="Cumulative position" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </figure>
+
+      <div
+        className={`rounded-lg border p-4 ${
+          assumptions.bonding_capacity === 0
+            ? 'bg-gray-50 border-gray-200'
+            : result.bonding_exceeded ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+        }`}
+      >
+        <h3 className="font-semibold text-gray-900 mb-1">🛡️ Bonding Capacity Check</h3>
+        <p className="text-sm text-gray-700">
+          The tender requires {formatCurrency(result.bonding_required)} in guarantees.{' '}
+          {assumptions.bonding_capacity === 0 && 'Enter your available bonding capacity to check it.'}
+          {assumptions.bonding_capacity > 0 && (result.bonding_exceeded
+            ? <strong className="text-red-700">That exceeds your capacity by {formatCurrency(result.bonding_shortfall)}.</strong>
+            : <strong className="text-green-700">That fits, leaving {formatCurrency(assumptions.bonding_capacity - result.bonding_required)} of capacity.</strong>
+          )}
+        </p>
+      </div>
+    </div>
+  )
+}
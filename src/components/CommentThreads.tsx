@@ -0,0 +1,156 @@
+import { useState } from 'react'
+import { toApiError } from '../api/client'
+import { CommentAnchor, CommentInput, CommentThread, ReportComment, anchorKey } from '../api/comments'
+import { Colleague, colleagueName } from '../api/users'
+import { mentionedIds, splitMentions } from '../utils/mentions'
+import MentionTextarea from './MentionTextarea'
+
+interface CommentThreadsProps {
+  anchor: CommentAnchor
+  // What the threads are about, e.g. the red flag text
+  label: string
+  threads: CommentThread[]
+  colleagues: Colleague[]
+  onCreate: (anchor: CommentAnchor, input: CommentInput) => Promise<void>
+  onReply: (thread: CommentThread, input: CommentInput) => Promise<void>
+  onResolve: (thread: CommentThread, resolved: boolean) => Promise<void>
+}
+
+const formatTime = (iso: string) => {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export default function CommentThreads({ anchor, label, threads, colleagues, onCreate, onReply, onResolve }: CommentThreadsProps) {
+  const [draft, setDraft] = useState('')
+  const [replyDrafts, setReplyDrafts] = useState<Record<number, string>>({})
+  const [showResolved, setShowResolved] = useState(false)
+  const [posting, setPosting] = useState(false)
+
+  const key = anchorKey(anchor).replace(/[^a-zA-Z0-9_-]/g, '-')
+  const open = threads.filter(thread => !thread.resolved)
+  const resolved = threads.filter(thread => thread.resolved)
+  const visible = showResolved ? [...open, ...resolved] : open
+
+  const toInput = (body: string): CommentInput => ({ body: body.trim(), mention_ids: mentionedIds(body, colleagues) })
+
+  // Drafts are kept when posting fails so nothing typed is lost
+  const submit = async (action: () => Promise<void>, clear: () => void) => {
+    setPosting(true)
+    try {
+      await action()
+      clear()
+    } catch (err) {
+      console.error('Error saving comment:', err)
+      alert(`Could not save the comment: ${toApiError(err).message}`)
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const renderBody = (comment: ReportComment) => {
+    const names = colleagues.filter(colleague => comment.mention_ids.includes(colleague.id)).map(colleagueName)
+    return splitMentions(comment.body, names).map((part, idx) =>
+      part.mention ? (
+        <span key={idx} className="font-medium text-blue-700 bg-blue-50 rounded px-0.5">{part.text}</span>
+      ) : (
+        <span key={idx}>{part.text}</span>
+      )
+    )
+  }
+
+  return (
+    <section className="mt-3 bg-white border border-gray-200 rounded-lg p-4 text-left" aria-label={`Comments on ${label}`}>
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-semibold text-gray-900">💬 Comments</h4>
+        {resolved.length > 0 && (
+          <button onClick={() => setShowResolved(!showResolved)} className="text-xs text-blue-600 hover:text-blue-800">
+            {showResolved ? 'Hide resolved' : `Show ${resolved.length} resolved`}
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 && <p className="text-sm text-gray-500 mb-3">No open discussions yet</p>}
+
+      <div className="space-y-4">
+        {visible.map(thread => (
+          <div key={thread.id} className={`border-l-4 pl-3 ${thread.resolved ? 'border-gray-200 opacity-75' : 'border-blue-300'}`}>
+            <ul className="space-y-2">
+              {thread.comments.map(comment => (
+                <li key={comment.id} className="text-sm">
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    {comment.unread && <span className="w-2 h-2 bg-blue-600 rounded-full" aria-label="Unread" />}
+                    <span className="font-semibold text-gray-800">{comment.author_name}</span>
+                    <span>{formatTime(comment.created_at)}</span>
+                  </div>
+                  <p className="text-gray-700 whitespace-pre-wrap">{renderBody(comment)}</p>
+                </li>
+              ))}
+            </ul>
+
+            {thread.resolved ? (
+              <div className="mt-2 flex items-center gap-3 text-xs text-gray-500">
+                <span>
+                  ✓ Resolved{thread.resolved_by_name && ` by ${thread.resolved_by_name}`}
+                  {thread.resolved_at && ` · ${formatTime(thread.resolved_at)}`}
+                </span>
+                <button onClick={() => submit(() => onResolve(thread, false), () => {})} className="text-blue-600 hover:text-blue-800">
+                  Reopen
+                </button>
+              </div>
+            ) : (
+              <div className="mt-2 space-y-2">
+                <MentionTextarea
+                  id={`reply-${thread.id}`}
+                  label="Reply"
+                  value={replyDrafts[thread.id] || ''}
+                  colleagues={colleagues}
+                  placeholder="Reply… type @ to mention someone"
+                  onChange={(value) => setReplyDrafts(prev => ({ ...prev, [thread.id]: value }))}
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      submit(
+                        () => onReply(thread, toInput(replyDrafts[thread.id] || '')),
+                        () => setReplyDrafts(prev => ({ ...prev, [thread.id]: '' }))
+                      )
+                    }
+                    disabled={posting || !(replyDrafts[thread.id] || '').trim()}
+                    className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-xs font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    Reply
+                  </button>
+                  <button
+                    onClick={() => submit(() => onResolve(thread, true), () => {})}
+                    disabled={posting}
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-xs text-gray-700"
+                  >
+                    ✓ Resolve
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-gray-100 space-y-2">
+        <MentionTextarea
+          id={`new-thread-${key}`}
+          label={`Start a discussion on ${label}`}
+          value={draft}
+          colleagues={colleagues}
+          placeholder="Start a new discussion… type @ to mention someone"
+          onChange={setDraft}
+        />
+        <button
+          onClick={() => submit(() => onCreate(anchor, toInput(draft)), () => setDraft(''))}
+          disabled={posting || !draft.trim()}
+          className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-xs font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          Comment
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,209 @@
+import { categoryField } from '../api/overrides'
+import { ComparisonReport } from '../api/reports'
+import { totalBonding } from '../utils/comparison'
+import { formatCurrency } from '../utils/format'
+
+interface ComparisonBreakdownProps {
+  reports: ComparisonReport[]
+}
+
+// Budget categories keep the same color in every project's bar
+const CATEGORY_COLORS = [
+  'bg-blue-500',
+  'bg-green-500',
+  'bg-yellow-500',
+  'bg-purple-500',
+  'bg-pink-500',
+  'bg-teal-500',
+  'bg-orange-500',
+  'bg-indigo-500',
+  'bg-gray-500',
+]
+
+// Heat-map shades, from least to most severe
+const getHeatColor = (level: string) => {
+  const levelUpper = level.toUpperCase()
+  if (levelUpper.includes('VERY')) return 'bg-red-600 text-white'
+  if (levelUpper === 'MEDIUM-HIGH') return 'bg-orange-300 text-orange-900'
+  if (levelUpper === 'LOW-MEDIUM') return 'bg-lime-200 text-lime-900'
+  if (levelUpper.includes('HIGH')) return 'bg-red-400 text-white'
+  if (levelUpper.includes('MEDIUM')) return 'bg-yellow-200 text-yellow-900'
+  if (levelUpper.includes('LOW')) return 'bg-green-200 text-green-900'
+  return 'bg-gray-100 text-gray-700'
+}
+
+// Names in first-seen order across all reports
+const unionOf = (reports: ComparisonReport[], names: (report: ComparisonReport) => string[]) => {
+  return Array.from(new Set(reports.flatMap(names)))
+}
+
+export default function ComparisonBreakdown({ reports }: ComparisonBreakdownProps) {
+  const categories = unionOf(reports, r => r.cost_analysis.budget_breakdown.map(item => item.category))
+  const guaranteeTypes = unionOf(reports, r => r.cost_analysis.guarantees.map(item => item.type))
+  const riskCategories = unionOf(reports, r => r.risk_assessment.categories.map(category => category.name))
+  const bondingTotals = reports.map(totalBonding)
+  const advances = reports.map(r => r.cost_analysis.payment_terms.advance)
+  const retentions = reports.map(r => r.cost_analysis.payment_terms.retention)
+
+  const categoryColor = (category: string) => CATEGORY_COLORS[categories.indexOf(category) % CATEGORY_COLORS.length]
+
+  // Lower bonding and retention, and a higher advance, are better for cash flow
+  const highlight = (value: number, values: number[], lowerIsBetter: boolean) => {
+    if (values.length < 2 || Math.min(...values) === Math.max(...values)) return ''
+    const best = lowerIsBetter ? Math.min(...values) : Math.max(...values)
+    const worst = lowerIsBetter ? Math.max(...values) : Math.min(...values)
+    if (value === best) return 'bg-green-100 text-green-800 font-bold'
+    if (value === worst) return 'bg-red-100 text-red-800'
+    return ''
+  }
+
+  const headerRow = (label: string) => (
+    <tr>
+      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50">
+        {label}
+      </th>
+      {reports.map(report => (
+        <th key={report.id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">
+          {report.project_name}
+        </th>
+      ))}
+    </tr>
+  )
+
+  return (
+    <div className="space-y-6 mt-6">
+      {/* Budget Breakdown */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">💰 Budget Breakdown</h2>
+        <div className="space-y-4">
+          {reports.map(report => (
+            <div key={report.id}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-900">{report.project_name}</span>
+                <span className="text-gray-500">
+                  {formatCurrency(report.cost_analysis.budget_breakdown.reduce((sum, item) => sum + item.amount, 0))}
+                </span>
+              </div>
+              <div className="flex w-full h-6 rounded overflow-hidden bg-gray-100">
+                {report.cost_analysis.budget_breakdown.map(item => (
+                  <div
+                    key={item.category}
+                    className={`${categoryColor(item.category)} h-full`}
+                    style={{ width: `${item.percentage}%` }}
+                    title={`${item.category}: ${formatCurrency(item.amount)} (${item.percentage}%)`}
+                  ></div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+          {categories.map(category => (
+            <span key={category} className="flex items-center gap-1">
+              <span className={`w-3 h-3 rounded-sm ${categoryColor(category)}`}></span>
+              {category}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Guarantees */}
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <h2 className="text-xl font-bold text-gray-900 p-6 pb-4">🛡️ Guarantees & Bonding Exposure</h2>
+        <table className="w-full">
+          <thead className="bg-gray-50">{headerRow('Guarantee')}</thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {guaranteeTypes.map(type => (
+              <tr key={type} className="hover:bg-gray-50">
+                <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">{type}</td>
+                {reports.map(report => {
+                  const guarantee = report.cost_analysis.guarantees.find(g => g.type === type)
+                  return (
+                    <td key={report.id} className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                      {guarantee ? `${formatCurrency(guarantee.amount)} (${guarantee.percentage}%)` : <span className="text-gray-400">Not required</span>}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="px-6 py-3 whitespace-nowrap text-sm font-bold text-gray-900 sticky left-0 bg-white">Total Bonding Exposure</td>
+              {reports.map((report, idx) => (
+                <td key={report.id} className={`px-6 py-3 whitespace-nowrap text-sm font-bold ${highlight(bondingTotals[idx], bondingTotals, true)}`}>
+                  {formatCurrency(bondingTotals[idx])}
+                  {report.budget_max > 0 && (
+                    <span className="ml-1 text-xs font-normal">({((bondingTotals[idx] / report.budget_max) * 100).toFixed(1)}% of max budget)</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Payment Terms */}
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <h2 className="text-xl font-bold text-gray-900 p-6 pb-4">💵 Payment Terms</h2>
+        <table className="w-full">
+          <thead className="bg-gray-50">{headerRow('Term')}</thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            <tr className="hover:bg-gray-50">
+              <td className="px-6 py-3 text-sm font-medium text-gray-900 sticky left-0 bg-white">Advance</td>
+              {reports.map((report, idx) => (
+                <td key={report.id} className={`px-6 py-3 text-sm ${highlight(advances[idx], advances, false)}`}>
+                  {report.cost_analysis.payment_terms.advance}%
+                </td>
+              ))}
+            </tr>
+            <tr className="hover:bg-gray-50">
+              <td className="px-6 py-3 text-sm font-medium text-gray-900 sticky left-0 bg-white">Progress</td>
+              {reports.map(report => (
+                <td key={report.id} className="px-6 py-3 text-sm text-gray-700">
+                  {report.cost_analysis.payment_terms.progress}%
+                </td>
+              ))}
+            </tr>
+            <tr className="hover:bg-gray-50">
+              <td className="px-6 py-3 text-sm font-medium text-gray-900 sticky left-0 bg-white">Retention</td>
+              {reports.map((report, idx) => (
+                <td key={report.id} className={`px-6 py-3 text-sm ${highlight(retentions[idx], retentions, true)}`}>
+                  {report.cost_analysis.payment_terms.retention}%
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Risk Heat-map */}
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <h2 className="text-xl font-bold text-gray-900 p-6 pb-4">⚠️ Risk Categories</h2>
+        <table className="w-full">
+          <thead className="bg-gray-50">{headerRow('Category')}</thead>
+          <tbody className="bg-white">
+            {riskCategories.map(name => (
+              <tr key={name}>
+                <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">{name}</td>
+                {reports.map(report => {
+                  const category = report.risk_assessment.categories.find(c => c.name === name)
+                  const adjusted = report.adjusted_fields.includes(categoryField(name))
+                  return (
+                    <td key={report.id} className="px-1 py-1">
+                      <div
+                        className={`rounded px-3 py-2 text-xs font-semibold text-center ${category ? getHeatColor(category.level) : 'bg-gray-50 text-gray-400'}`}
+                        title={category?.items.join('\n')}
+                      >
+                        {category ? category.level : '—'}
+                        {adjusted && <span className="ml-1" title="Adjusted by a person from the AI value">✎</span>}
+                      </div>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react'
+import { isCancel } from '../api/client'
+import {
+  DEFAULT_REPORT_QUERY,
+  MAX_COMPARE_REPORTS,
+  PAGE_SIZES,
+  ReportSummary,
+  listReports,
+} from '../api/reports'
+
+interface PickerColumn {
+  id: number
+  name: string
+  pinned: boolean
+}
+
+interface ComparisonPickerProps {
+  columns: PickerColumn[]
+  onAdd: (report: ReportSummary) => void
+  onRemove: (id: number) => void
+  onMove: (id: number, direction: -1 | 1) => void
+  onTogglePin: (id: number) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+const SEARCH_RESULTS = 8
+// Enough to fill the results after dropping reports already compared, in a page size the list API accepts
+const SEARCH_PAGE_SIZE = PAGE_SIZES.find(size => size >= SEARCH_RESULTS + MAX_COMPARE_REPORTS) ?? PAGE_SIZES[PAGE_SIZES.length - 1]
+
+export default function ComparisonPicker({ columns, onAdd, onRemove, onMove, onTogglePin }: ComparisonPickerProps) {
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<ReportSummary[]>([])
+  const [open, setOpen] = useState(false)
+
+  const atLimit = columns.length >= MAX_COMPARE_REPORTS
+  const pinnedCount = columns.filter(column => column.pinned).length
+
+  useEffect(() => {
+    if (!open || atLimit) return
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await listReports(
+          { ...DEFAULT_REPORT_QUERY, search: search.trim(), pageSize: SEARCH_PAGE_SIZE },
+          controller.signal
+        )
+        setResults(data.reports)
+      } catch (err) {
+        if (!isCancel(err)) console.error('Error searching reports:', err)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [search, open, atLimit])
+
+  const available = results.filter(report => !columns.some(column => column.id === report.id)).slice(0, SEARCH_RESULTS)
+
+  const handleAdd = (report: ReportSummary) => {
+    onAdd(report)
+    setSearch('')
+    setOpen(false)
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {columns.map((column, idx) => {
+          // Columns only move within their group; pinned ones stay in front
+          const groupStart = column.pinned ? 0 : pinnedCount
+          const groupEnd = column.pinned ? pinnedCount - 1 : columns.length - 1
+          return (
+            <div
+              key={column.id}
+              className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border text-sm ${
+                column.pinned ? 'bg-blue-50 border-blue-300' : 'bg-white border-gray-300'
+              }`}
+            >
+              <span className="font-medium text-gray-900 max-w-[180px] truncate" title={column.name}>{column.name}</span>
+              <button
+                onClick={() => onTogglePin(column.id)}
+                className={`px-1 ${column.pinned ? 'text-blue-600' : 'text-gray-400 hover:text-gray-700'}`}
+                aria-label={column.pinned ? `Unpin ${column.name}` : `Pin ${column.name}`}
+                aria-pressed={column.pinned}
+                title={column.pinned ? 'Unpin' : 'Pin to the front'}
+              >
+                📌
+              </button>
+              <button
+                onClick={() => onMove(column.id, -1)}
+                disabled={idx <= groupStart}
+                className="px-1 text-gray-500 hover:text-gray-900 disabled:text-gray-300"
+                aria-label={`Move ${column.name} left`}
+              >
+                ◀
+              </button>
+              <button
+                onClick={() => onMove(column.id, 1)}
+                disabled={idx >= groupEnd}
+                className="px-1 text-gray-500 hover:text-gray-900 disabled:text-gray-300"
+                aria-label={`Move ${column.name} right`}
+              >
+                ▶
+              </button>
+              <button
+                onClick={() => onRemove(column.id)}
+                className="px-1 text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${column.name}`}
+              >
+                ✕
+              </button>
+            </div>
+          )
+        })}
+
+        <div className="relative">
+          <button
+            onClick={() => setOpen(!open)}
+            disabled={atLimit}
+            className="px-3 py-1 rounded-full border border-dashed border-gray-400 text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            + Add project
+          </button>
+          {open && !atLimit && (
+            <div className="absolute z-20 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 p-3">
+              <input
+                type="text"
+                autoFocus
+                placeholder="Search projects or clients..."
+                aria-label="Search projects to compare"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <ul className="mt-2 max-h-64 overflow-y-auto">
+                {available.length === 0 && (
+                  <li className="px-2 py-2 text-sm text-gray-500">No matching projects</li>
+                )}
+                {available.map(report => (
+                  <li key={report.id}>
+                    <button
+                      onClick={() => handleAdd(report)}
+                      className="w-full text-left px-2 py-2 rounded hover:bg-gray-50"
+                    >
+                      <div className="text-sm font-medium text-gray-900">{report.project_name}</div>
+                      <div className="text-xs text-gray-500">{report.client_name} · risk {report.risk_score.toFixed(1)}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {atLimit && (
+        <p className="mt-2 text-sm text-gray-600">
+          You can compare up to {MAX_COMPARE_REPORTS} projects at once. Remove one to add another.
+        </p>
+      )}
+    </div>
+  )
+}
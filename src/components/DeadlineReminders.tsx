@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { CalendarReport, listCalendarReports } from '../api/calendar'
+import { REMINDER_DAYS, addDays, dateKey, reminderThreshold, toDateKey } from '../utils/deadlines'
+import { daysUntil, formatDate } from '../utils/format'
+
+interface DeadlineRemindersProps {
+  userId: number
+}
+
+interface Reminder {
+  key: string
+  report: CalendarReport
+  days: number
+}
+
+// Deadlines can come into a reminder window while the app stays open
+const REFRESH_MS = 60 * 60 * 1000
+
+const dismissedKey = (userId: number) => `dismissed_reminders:${userId}`
+
+const readDismissed = (userId: number): string[] => {
+  const stored = localStorage.getItem(dismissedKey(userId))
+  return stored ? JSON.parse(stored) : []
+}
+
+// Keys are `<report>:<deadline>:<window>`; once the deadline has passed they can't match again
+const pruneDismissed = (userId: number, today: string) => {
+  const dismissed = readDismissed(userId).filter(key => (key.split(':')[1] || '') >= today)
+  localStorage.setItem(dismissedKey(userId), JSON.stringify(dismissed))
+  return dismissed
+}
+
+export default function DeadlineReminders({ userId }: DeadlineRemindersProps) {
+  const navigate = useNavigate()
+  const [reminders, setReminders] = useState<Reminder[]>([])
+
+  useEffect(() => {
+    loadReminders()
+    const interval = setInterval(loadReminders, REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [userId])
+
+  const loadReminders = async () => {
+    const today = toDateKey(new Date())
+    try {
+      const data = await listCalendarReports(today, addDays(today, Math.max(...REMINDER_DAYS)))
+      const dismissed = pruneDismissed(userId, today)
+      const due = data.reports.flatMap((report): Reminder[] => {
+        const days = daysUntil(report.deadline_date, today)
+        if (days === null) return []
+        const threshold = reminderThreshold(days)
+        if (threshold === null) return []
+        // One reminder per window, so dismissing the 7-day one still leaves the 3- and 1-day ones
+        const key = `${report.id}:${dateKey(report.deadline_date)}:${threshold}`
+        return dismissed.includes(key) ? [] : [{ key, report, days }]
+      })
+      setReminders(due.sort((a, b) => a.days - b.days))
+    } catch (err) {
+      console.error('Error loading deadline reminders:', err)
+    }
+  }
+
+  const dismiss = (key: string) => {
+    localStorage.setItem(dismissedKey(userId), JSON.stringify([...readDismissed(userId), key]))
+    setReminders(prev => prev.filter(reminder => reminder.key !== key))
+  }
+
+  if (reminders.length === 0) return null
+
+  const dueLabel = (days: number) => {
+    if (days === 0) return 'today'
+    if (days === 1) return 'tomorrow'
+    return `in ${days} days`
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-full max-w-sm space-y-2" role="region" aria-label="Deadline reminders">
+      {reminders.map(reminder => (
+        <div
+          key={reminder.key}
+          role="status"
+          className={`bg-white rounded-lg shadow-lg border-l-4 p-4 ${reminder.days <= 1 ? 'border-red-500' : reminder.days <= 3 ? 'border-orange-400' : 'border-yellow-400'}`}
+        >
+          <div className="flex justify-between items-start gap-2">
+            <div>
+              <p className="text-sm font-semibold text-gray-900">⏰ Proposal due {dueLabel(reminder.days)}</p>
+              <p className="text-sm text-gray-700">{reminder.report.project_name}</p>
+              <p className="text-xs text-gray-500">
+                {reminder.report.client_name} · {formatDate(reminder.report.deadline_date)}
+              </p>
+            </div>
+            <button
+              onClick={() => dismiss(reminder.key)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label={`Dismiss reminder for ${reminder.report.project_name}`}
+            >
+              ✕
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              dismiss(reminder.key)
+              navigate(`/report/${reminder.report.id}`)
+            }}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+          >
+            View report →
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
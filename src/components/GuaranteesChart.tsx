@@ -0,0 +1,32 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { GUARANTEE_COLOR, GuaranteeBar } from '../utils/costCharts'
+import { formatCompact, formatCurrency } from '../utils/format'
+
+interface GuaranteesChartProps {
+  bars: GuaranteeBar[]
+}
+
+export default function GuaranteesChart({ bars }: GuaranteesChartProps) {
+  if (bars.length === 0) return null
+
+  const description = bars.map(bar => `${bar.name} ${formatCurrency(bar.value)}`).join(', ')
+
+  return (
+    <figure className="h-48 mb-3" aria-label={`Guarantees: ${description}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={bars} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }} accessibilityLayer>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" horizontal={false} />
+          <XAxis type="number" tickFormatter={formatCompact} tick={{ fontSize: 12 }} />
+          <YAxis type="category" dataKey="name" tick={{ fontSize: 12 }} width={110} />
+          <Tooltip
+            formatter={(value: number, _name: string, item: { payload?: GuaranteeBar }) => [
+              `${formatCurrency(value)} (${item.payload?.percentage ?? 0}%)`,
+              'Amount',
+            ]}
+          />
+          <Bar dataKey="value" fill={GUARANTEE_COLOR} radius={[0, 4, 4, 0]} isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    </figure>
+  )
+}
@@ -0,0 +1,104 @@
+import { useState, useRef, KeyboardEvent } from 'react'
+import { Colleague, colleagueName } from '../api/users'
+import { MentionQuery, findMentionQuery, insertMention, mentionSuggestions } from '../utils/mentions'
+
+interface MentionTextareaProps {
+  id: string
+  label: string
+  value: string
+  colleagues: Colleague[]
+  placeholder?: string
+  onChange: (value: string) => void
+}
+
+export default function MentionTextarea({ id, label, value, colleagues, placeholder, onChange }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mention, setMention] = useState<MentionQuery | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const suggestions = mention ? mentionSuggestions(colleagues, mention.query) : []
+  const listOpen = suggestions.length > 0
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret))
+    setHighlighted(0)
+  }
+
+  const choose = (colleague: Colleague) => {
+    const textarea = textareaRef.current
+    if (!mention || !textarea) return
+    const next = insertMention(value, mention, textarea.selectionStart, colleague)
+    onChange(next.text)
+    setMention(null)
+    // Put the caret after the inserted name once React has re-rendered the value
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(next.caret, next.caret)
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!listOpen) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      choose(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      setMention(null)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <label htmlFor={id} className="sr-only">{label}</label>
+      <textarea
+        ref={textareaRef}
+        id={id}
+        rows={2}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        role="combobox"
+        aria-expanded={listOpen}
+        aria-controls={`${id}-mentions`}
+        aria-autocomplete="list"
+        aria-activedescendant={listOpen ? `${id}-mention-${highlighted}` : undefined}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      {listOpen && (
+        <ul
+          id={`${id}-mentions`}
+          role="listbox"
+          aria-label="Mention a colleague"
+          className="absolute z-20 left-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg text-sm"
+        >
+          {suggestions.map((colleague, idx) => (
+            <li
+              key={colleague.id}
+              id={`${id}-mention-${idx}`}
+              role="option"
+              aria-selected={idx === highlighted}
+              // Keep focus in the textarea so the caret position is still known
+              onMouseDown={(e) => {
+                e.preventDefault()
+                choose(colleague)
+              }}
+              className={`px-3 py-2 cursor-pointer ${idx === highlighted ? 'bg-blue-50 text-blue-900' : 'text-gray-700'}`}
+            >
+              <div className="font-medium">{colleagueName(colleague)}</div>
+              <div className="text-xs text-gray-500">{colleague.email}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import { useState, FormEvent } from 'react'
+import { GuaranteeDraft, ReportDraft, validateDraft } from '../utils/reportEdits'
+
+interface ReportEditFormProps {
+  draft: ReportDraft
+  onChange: (draft: ReportDraft) => void
+  onSave: () => void
+  onCancel: () => void
+}
+
+type TextField = 'client_name' | 'location' | 'budget_min' | 'budget_max' | 'duration_months' | 'deadline_date' | 'award_date' | 'start_date'
+
+const inputClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-lg text-sm ${error ? 'border-red-400 bg-red-50' : 'border-gray-300'}`
+
+export default function ReportEditForm({ draft, onChange, onSave, onCancel }: ReportEditFormProps) {
+  // Errors show after the first save attempt, then update as the user types
+  const [submitted, setSubmitted] = useState(false)
+  const errors = submitted ? validateDraft(draft) : {}
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    setSubmitted(true)
+    if (Object.keys(validateDraft(draft)).length === 0) onSave()
+  }
+
+  const update = (changes: Partial<ReportDraft>) => onChange({ ...draft, ...changes })
+
+  const updateGuarantee = (idx: number, changes: Partial<GuaranteeDraft>) => {
+    update({ guarantees: draft.guarantees.map((item, i) => (i === idx ? { ...item, ...changes } : item)) })
+  }
+
+  const field = (name: TextField, label: string, type = 'text', extra: Record<string, string | number> = {}) => (
+    <div>
+      <label htmlFor={`edit-${name}`} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        id={`edit-${name}`}
+        type={type}
+        value={draft[name]}
+        onChange={(e) => update({ [name]: e.target.value })}
+        aria-invalid={!!errors[name]}
+        aria-describedby={errors[name] ? `edit-${name}-error` : undefined}
+        className={inputClass(errors[name])}
+        {...extra}
+      />
+      {errors[name] && <p id={`edit-${name}-error`} className="mt-1 text-xs text-red-600">{errors[name]}</p>}
+    </div>
+  )
+
+  const errorCount = Object.keys(errors).length
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="bg-white rounded-lg shadow p-6 mb-6 border-2 border-blue-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">✏️ Edit Report Details</h2>
+        <p className="text-sm text-gray-500">Correct facts the analysis extracted wrongly; edited fields are marked</p>
+      </div>
+
+      {errorCount > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800" role="alert">
+          Fix {errorCount} {errorCount === 1 ? 'problem' : 'problems'} before saving.
+        </div>
+      )}
+
+      <h3 className="font-semibold text-gray-900 mb-2">Project</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {field('client_name', 'Client')}
+        {field('location', 'Location')}
+        {field('duration_months', 'Duration (months)', 'number', { min: 1, step: 1 })}
+        {field('budget_min', 'Minimum budget (USD)', 'number', { min: 0 })}
+        {field('budget_max', 'Maximum budget (USD)', 'number', { min: 0 })}
+      </div>
+
+      <h3 className="font-semibold text-gray-900 mb-2">Key Dates</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {field('deadline_date', 'Proposal deadline', 'date')}
+        {field('award_date', 'Award date', 'date')}
+        {field('start_date', 'Project start', 'date')}
+      </div>
+
+      <h3 className="font-semibold text-gray-900 mb-2">Requirements</h3>
+      <ul className="space-y-2 mb-2">
+        {draft.requirements.map((req, idx) => (
+          <li key={idx} className="flex gap-2">
+            <label htmlFor={`edit-requirement-${idx}`} className="sr-only">Requirement {idx + 1}</label>
+            <input
+              id={`edit-requirement-${idx}`}
+              type="text"
+              value={req}
+              onChange={(e) => update({ requirements: draft.requirements.map((r, i) => (i === idx ? e.target.value : r)) })}
+              className={inputClass()}
+            />
+            <button
+              type="button"
+              onClick={() => update({ requirements: draft.requirements.filter((_, i) => i !== idx) })}
+              aria-label={`Remove requirement ${idx + 1}`}
+              className="px-3 text-gray-400 hover:text-red-600"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={() => update({ requirements: [...draft.requirements, ''] })}
+        className="text-sm text-blue-600 hover:text-blue-800 mb-6"
+      >
+        + Add requirement
+      </button>
+
+      <h3 className="font-semibold text-gray-900 mb-2">Guarantees</h3>
+      <div className="space-y-2 mb-2">
+        {draft.guarantees.map((item, idx) => (
+          <div key={idx} className="grid grid-cols-12 gap-2 items-start">
+            <div className="col-span-5">
+              <label htmlFor={`edit-guarantee-${idx}-type`} className="sr-only">Guarantee {idx + 1} type</label>
+              <input
+                id={`edit-guarantee-${idx}-type`}
+                type="text"
+                placeholder="Type"
+                value={item.type}
+                onChange={(e) => updateGuarantee(idx, { type: e.target.value })}
+                className={inputClass(errors[`guarantees.${idx}.type`])}
+              />
+              {errors[`guarantees.${idx}.type`] && <p className="mt-1 text-xs text-red-600">{errors[`guarantees.${idx}.type`]}</p>}
+            </div>
+            <div className="col-span-3">
+              <label htmlFor={`edit-guarantee-${idx}-amount`} className="sr-only">Guarantee {idx + 1} amount</label>
+              <input
+                id={`edit-guarantee-${idx}-amount`}
+                type="number"
+                min={0}
+                placeholder="Amount"
+                value={item.amount}
+                onChange={(e) => updateGuarantee(idx, { amount: e.target.value })}
+                className={inputClass(errors[`guarantees.${idx}.amount`])}
+              />
+              {errors[`guarantees.${idx}.amount`] && <p className="mt-1 text-xs text-red-600">{errors[`guarantees.${idx}.amount`]}</p>}
+            </div>
+            <div className="col-span-3">
+              <label htmlFor={`edit-guarantee-${idx}-percentage`} className="sr-only">Guarantee {idx + 1} percentage</label>
+              <input
+                id={`edit-guarantee-${idx}-percentage`}
+                type="number"
+                min={0}
+                max={100}
+                step={0.1}
+                placeholder="%"
+                value={item.percentage}
+                onChange={(e) => updateGuarantee(idx, { percentage: e.target.value })}
+                className={inputClass(errors[`guarantees.${idx}.percentage`])}
+              />
+              {errors[`guarantees.${idx}.percentage`] && (
+                <p className="mt-1 text-xs text-red-600">{errors[`guarantees.${idx}.percentage`]}</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => update({ guarantees: draft.guarantees.filter((_, i) => i !== idx) })}
+              aria-label={`Remove guarantee ${idx + 1}`}
+              className="col-span-1 py-2 text-gray-400 hover:text-red-600"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => update({ guarantees: [...draft.guarantees, { type: '', amount: '', percentage: '' }] })}
+        className="text-sm text-blue-600 hover:text-blue-800 mb-6"
+      >
+        + Add guarantee
+      </button>
+
+      <fieldset className="mb-6">
+        <legend className="font-semibold text-gray-900 mb-2">Payment Terms (%)</legend>
+        <div className="grid grid-cols-3 gap-4">
+          {(['advance', 'progress', 'retention'] as const).map(term => (
+            <div key={term}>
+              <label htmlFor={`edit-payment-${term}`} className="block text-sm font-medium text-gray-700 mb-1 capitalize">{term}</label>
+              <input
+                id={`edit-payment-${term}`}
+                type="number"
+                min={0}
+                max={100}
+                value={draft.payment_terms[term]}
+                onChange={(e) => update({ payment_terms: { ...draft.payment_terms, [term]: e.target.value } })}
+                aria-invalid={!!errors.payment_terms}
+                className={inputClass(errors.payment_terms)}
+              />
+            </div>
+          ))}
+        </div>
+        {errors.payment_terms && <p className="mt-1 text-xs text-red-600">{errors.payment_terms}</p>}
+      </fieldset>
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+        >
+          Save changes
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { SavedView } from '../api/views'
+
+interface SavedViewTabsProps {
+  views: SavedView[]
+  activeViewId: string | null
+  canSave: boolean
+  onSelect: (view: SavedView | null) => void
+  onSave: (name: string, isDefault: boolean) => Promise<void>
+  onSetDefault: (view: SavedView | null) => void
+  onDelete: (view: SavedView) => void
+  onCopyLink: () => void
+}
+
+export default function SavedViewTabs({
+  views,
+  activeViewId,
+  canSave,
+  onSelect,
+  onSave,
+  onSetDefault,
+  onDelete,
+  onCopyLink,
+}: SavedViewTabsProps) {
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [isDefault, setIsDefault] = useState(false)
+
+  const activeView = views.find(v => v.id === activeViewId) || null
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    await onSave(name.trim(), isDefault)
+    setSaving(false)
+    setName('')
+    setIsDefault(false)
+  }
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 text-sm font-medium border-b-2 whitespace-nowrap transition-colors ${
+      active ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+    }`
+
+  return (
+    <div className="px-6 border-b border-gray-200">
+      <div className="flex items-center justify-between gap-4">
+        <div role="tablist" aria-label="Saved views" className="flex overflow-x-auto">
+          <button
+            role="tab"
+            aria-selected={activeViewId === null}
+            onClick={() => onSelect(null)}
+            className={tabClass(activeViewId === null)}
+          >
+            All Reports
+          </button>
+          {views.map(view => (
+            <button
+              key={view.id}
+              role="tab"
+              aria-selected={view.id === activeViewId}
+              onClick={() => onSelect(view)}
+              className={tabClass(view.id === activeViewId)}
+            >
+              {view.is_default && <span className="text-yellow-500 mr-1" title="Default view">★</span>}
+              {view.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4 text-sm py-2">
+          {activeView && (
+            <>
+              <button
+                onClick={() => onSetDefault(activeView.is_default ? null : activeView)}
+                className="text-gray-600 hover:text-gray-900 whitespace-nowrap"
+              >
+                {activeView.is_default ? 'Unset default' : 'Set as default'}
+              </button>
+              <button
+                onClick={() => onDelete(activeView)}
+                className="text-red-600 hover:text-red-800 whitespace-nowrap"
+              >
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={onCopyLink}
+            className="text-gray-600 hover:text-gray-900 whitespace-nowrap"
+          >
+            Copy Link
+          </button>
+          {canSave && !saving && (
+            <button
+              onClick={() => setSaving(true)}
+              className="text-blue-600 hover:text-blue-800 font-medium whitespace-nowrap"
+            >
+              + Save View
+            </button>
+          )}
+        </div>
+      </div>
+
+      {saving && (
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-3 pb-3 text-sm">
+          <input
+            type="text"
+            autoFocus
+            placeholder="View name, e.g. High risk hospitals in MN"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 min-w-[240px] px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <label className="flex items-center gap-2 text-gray-600">
+            <input
+              type="checkbox"
+              checked={isDefault}
+              onChange={(e) => setIsDefault(e.target.checked)}
+              className="rounded"
+            />
+            Open by default
+          </label>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:bg-gray-400"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setSaving(false)}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+import { useState } from 'react'
+import { toApiError } from '../api/client'
+import {
+  DEFAULT_SCORING_MODEL,
+  MAX_WEIGHT,
+  RangeFactor,
+  RecommendationValue,
+  ScoringFactorKey,
+  ScoringModel,
+} from '../api/scoring'
+import { SCORING_FACTORS, validateScoringModel } from '../utils/scoring'
+
+interface ScoringModelEditorProps {
+  model: ScoringModel
+  canEdit: boolean
+  onSave: (model: ScoringModel) => Promise<void>
+  onClose: () => void
+}
+
+type RangeFactorKey = 'risk_score' | 'red_flags' | 'duration' | 'deadline'
+
+const RECOMMENDATION_VALUES: RecommendationValue[] = ['YES', 'CONDITIONAL', 'NO']
+
+const inputClass = 'w-24 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100'
+
+export default function ScoringModelEditor({ model, canEdit, onSave, onClose }: ScoringModelEditorProps) {
+  const [draft, setDraft] = useState<ScoringModel>(model)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const totalWeight = SCORING_FACTORS.reduce((sum, factor) => sum + draft[factor.key].weight, 0)
+
+  const setWeight = (key: ScoringFactorKey, weight: number) => {
+    setDraft(prev => ({ ...prev, [key]: { ...prev[key], weight } }))
+  }
+
+  const setRange = (key: RangeFactorKey, field: keyof Omit<RangeFactor, 'weight'>, value: number) => {
+    setDraft(prev => ({ ...prev, [key]: { ...prev[key], [field]: value } }))
+  }
+
+  const setBudgetFit = (field: 'capacity_min' | 'capacity_max' | 'tolerance_pct', value: number) => {
+    setDraft(prev => ({ ...prev, budget_fit: { ...prev.budget_fit, [field]: value } }))
+  }
+
+  const setRecommendationPoints = (value: RecommendationValue, points: number) => {
+    setDraft(prev => ({
+      ...prev,
+      recommendation: { ...prev.recommendation, points: { ...prev.recommendation.points, [value]: points } },
+    }))
+  }
+
+  const handleSave = async () => {
+    const validationError = validateScoringModel(draft)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setSaving(true)
+    setError('')
+    try {
+      await onSave(draft)
+    } catch (err) {
+      console.error('Error saving scoring model:', err)
+      setError(toApiError(err).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const numberInput = (id: string, value: number, onChange: (value: number) => void, step = 1) => (
+    <input
+      id={id}
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      disabled={!canEdit}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={inputClass}
+    />
+  )
+
+  const renderThresholds = (key: ScoringFactorKey, unit: string) => {
+    if (key === 'budget_fit') {
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="scoring-capacity-min">Capacity $</label>
+          {numberInput('scoring-capacity-min', draft.budget_fit.capacity_min, v => setBudgetFit('capacity_min', v), 100000)}
+          <label htmlFor="scoring-capacity-max">to $</label>
+          {numberInput('scoring-capacity-max', draft.budget_fit.capacity_max, v => setBudgetFit('capacity_max', v), 100000)}
+          <label htmlFor="scoring-tolerance">· zero at</label>
+          {numberInput('scoring-tolerance', draft.budget_fit.tolerance_pct, v => setBudgetFit('tolerance_pct', v))}
+          <span>% outside</span>
+        </div>
+      )
+    }
+    if (key === 'recommendation') {
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          {RECOMMENDATION_VALUES.map(value => (
+            <span key={value} className="flex items-center gap-1">
+              <label htmlFor={`scoring-rec-${value}`}>{value}</label>
+              {numberInput(`scoring-rec-${value}`, draft.recommendation.points[value], v => setRecommendationPoints(value, v))}
+            </span>
+          ))}
+          <span>pts (0-100)</span>
+        </div>
+      )
+    }
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor={`scoring-${key}-best`}>Full points at</label>
+        {numberInput(`scoring-${key}-best`, draft[key].best, v => setRange(key, 'best', v), key === 'risk_score' ? 0.5 : 1)}
+        <label htmlFor={`scoring-${key}-worst`}>· zero at</label>
+        {numberInput(`scoring-${key}-worst`, draft[key].worst, v => setRange(key, 'worst', v), key === 'risk_score' ? 0.5 : 1)}
+        <span>{unit}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">⚙️ Scoring Model</h2>
+          <p className="text-sm text-gray-600">
+            Each factor scores 0-100% between its thresholds; weights decide how much it counts in the bid score.
+            {!canEdit && ' Only bid managers and admins can change the model.'}
+          </p>
+          {model.updated_at && (
+            <p className="text-xs text-gray-500 mt-1">Last saved {new Date(model.updated_at).toLocaleString()}</p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close scoring model">
+          ✕
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Factor</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Weight</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Share</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Thresholds</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {SCORING_FACTORS.map(factor => (
+              <tr key={factor.key}>
+                <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">{factor.label}</td>
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min={0}
+                      max={MAX_WEIGHT}
+                      value={draft[factor.key].weight}
+                      disabled={!canEdit}
+                      onChange={(e) => setWeight(factor.key, Number(e.target.value))}
+                      aria-label={`${factor.label} weight`}
+                    />
+                    <span className="w-6 text-right text-gray-700">{draft[factor.key].weight}</span>
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-gray-500">
+                  {totalWeight > 0 ? Math.round((draft[factor.key].weight / totalWeight) * 100) : 0}%
+                </td>
+                <td className="px-4 py-3 text-gray-700">{renderThresholds(factor.key, factor.unit)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {canEdit && (
+        <div className="mt-4 flex justify-end gap-3">
+          <button
+            onClick={() => setDraft({ ...DEFAULT_SCORING_MODEL, updated_at: model.updated_at })}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Reset to defaults
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors disabled:bg-gray-400"
+          >
+            {saving ? 'Saving...' : 'Save Model'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react'
+
+interface SessionExpiryModalProps {
+  expiresAt: number
+  refreshing: boolean
+  error: string
+  onStaySignedIn: () => void
+  onLogout: () => void
+}
+
+export default function SessionExpiryModal({ expiresAt, refreshing, error, onStaySignedIn, onLogout }: SessionExpiryModalProps) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const secondsLeft = Math.max(Math.ceil((expiresAt - now) / 1000), 0)
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = String(secondsLeft % 60).padStart(2, '0')
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-40 flex items-center justify-center p-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expiry-title"
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-md"
+      >
+        <h2 id="session-expiry-title" className="text-xl font-bold text-gray-900 mb-2">
+          Your session is about to expire
+        </h2>
+        <p className="text-gray-600 mb-4">
+          You will be signed out in{' '}
+          <span className="font-bold text-gray-900" aria-live="polite">{minutes}:{seconds}</span>.
+          Unsaved work on this page may be lost.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onLogout}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Log out
+          </button>
+          <button
+            onClick={onStaySignedIn}
+            disabled={refreshing}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {refreshing ? 'Refreshing...' : 'Stay signed in'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
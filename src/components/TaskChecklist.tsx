@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { TaskChanges } from '../api/tasks'
+import { Colleague, colleagueName } from '../api/users'
+import { dateKey } from '../utils/deadlines'
+import { formatDate } from '../utils/format'
+import { TrackedTask, isOverdue } from '../utils/tasks'
+
+interface TaskChecklistProps {
+  tasks: TrackedTask[]
+  colleagues: Colleague[]
+  canEdit: boolean
+  // Rows with a save in flight that must not be changed again yet
+  lockedKeys?: string[]
+  // Priority actions are numbered, mitigation actions are not
+  numbered?: boolean
+  onSave: (task: TrackedTask, changes: TaskChanges) => void
+}
+
+export default function TaskChecklist({ tasks, colleagues, canEdit, lockedKeys = [], numbered = false, onSave }: TaskChecklistProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({})
+
+  const saveNotes = (task: TrackedTask) => {
+    const draft = noteDrafts[task.key]
+    if (draft !== undefined && draft !== task.notes) onSave(task, { notes: draft })
+  }
+
+  if (tasks.length === 0) {
+    return <p className="text-sm text-gray-500">No actions</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {tasks.map((task, idx) => {
+        const overdue = isOverdue(task)
+        const open = expanded === task.key
+        const editable = canEdit && !lockedKeys.includes(task.key)
+        return (
+          <li
+            key={task.key}
+            aria-busy={lockedKeys.includes(task.key)}
+            className={`rounded-lg border p-3 ${task.completed ? 'bg-gray-50 border-gray-200' : 'bg-white border-gray-200'}`}
+          >
+            <div className="flex items-start gap-3">
+              {numbered && (
+                <span className="flex-shrink-0 w-6 h-6 bg-green-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  {idx + 1}
+                </span>
+              )}
+              <input
+                type="checkbox"
+                checked={task.completed}
+                disabled={!editable}
+                onChange={(e) => onSave(task, { completed: e.target.checked })}
+                aria-label={`Mark "${task.title}" as ${task.completed ? 'not done' : 'done'}`}
+                className="mt-1 rounded"
+              />
+              <div className="flex-1 min-w-0">
+                <div className={`text-sm ${task.completed ? 'text-gray-400 line-through' : 'text-gray-700'}`}>{task.title}</div>
+                <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-500">
+                  <span>👤 {task.assignee_name || 'Unassigned'}</span>
+                  {task.due_date && (
+                    <span className={overdue ? 'text-red-600 font-semibold' : ''}>
+                      📆 Due {formatDate(task.due_date)}
+                      {overdue && ' (overdue)'}
+                    </span>
+                  )}
+                  {task.notes && <span>📝 Notes</span>}
+                </div>
+              </div>
+              <button
+                onClick={() => setExpanded(open ? null : task.key)}
+                aria-expanded={open}
+                className="text-xs text-blue-600 hover:text-blue-800 whitespace-nowrap"
+              >
+                {open ? 'Close' : 'Details'}
+              </button>
+            </div>
+
+            {open && (
+              <div className="mt-3 pl-7 grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                <div>
+                  <label htmlFor={`${task.key}-assignee`} className="block text-xs font-medium text-gray-600 mb-1">Assignee</label>
+                  <select
+                    id={`${task.key}-assignee`}
+                    value={task.assignee_id ?? ''}
+                    disabled={!editable}
+                    onChange={(e) => onSave(task, { assignee_id: e.target.value ? Number(e.target.value) : null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                  >
+                    <option value="">Unassigned</option>
+                    {colleagues.map(colleague => (
+                      <option key={colleague.id} value={colleague.id}>{colleagueName(colleague)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor={`${task.key}-due`} className="block text-xs font-medium text-gray-600 mb-1">Due date</label>
+                  <input
+                    id={`${task.key}-due`}
+                    type="date"
+                    value={task.due_date ? dateKey(task.due_date) : ''}
+                    disabled={!editable}
+                    onChange={(e) => onSave(task, { due_date: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor={`${task.key}-notes`} className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+                  <textarea
+                    id={`${task.key}-notes`}
+                    rows={3}
+                    value={noteDrafts[task.key] ?? task.notes}
+                    disabled={!editable}
+                    onChange={(e) => setNoteDrafts(prev => ({ ...prev, [task.key]: e.target.value }))}
+                    onBlur={() => saveNotes(task)}
+                    placeholder="Saved when you leave the field"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
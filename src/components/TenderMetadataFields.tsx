@@ -0,0 +1,50 @@
+import { DocumentMetadata } from '../api/documents'
+
+interface TenderMetadataFieldsProps {
+  idPrefix: string
+  value: DocumentMetadata
+  onChange: (value: DocumentMetadata) => void
+}
+
+export default function TenderMetadataFields({ idPrefix, value, onChange }: TenderMetadataFieldsProps) {
+  const update = (field: keyof DocumentMetadata, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue })
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+      <div>
+        <label htmlFor={`${idPrefix}-client`} className="block text-gray-600 mb-1">Client</label>
+        <input
+          id={`${idPrefix}-client`}
+          type="text"
+          value={value.client_name}
+          onChange={(e) => update('client_name', e.target.value)}
+          placeholder="e.g. City of Rochester"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-type`} className="block text-gray-600 mb-1">Project type</label>
+        <input
+          id={`${idPrefix}-type`}
+          type="text"
+          value={value.project_type}
+          onChange={(e) => update('project_type', e.target.value)}
+          placeholder="e.g. Hospital"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-deadline`} className="block text-gray-600 mb-1">Proposal deadline</label>
+        <input
+          id={`${idPrefix}-deadline`}
+          type="date"
+          value={value.deadline_date}
+          onChange={(e) => update('deadline_date', e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+        />
+      </div>
+    </div>
+  )
+}
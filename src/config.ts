@@ -7,6 +7,15 @@ interface AppConfig {
   environment: string
   appName: string
   appVersion: string
+  // Shown on exported reports; empty means exports carry only the app name
+  companyName: string
+  maxUploadSizeMb: number
+  uploadChunkSizeMb: number
+}
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
 }
 
 const config: AppConfig = {
@@ -14,6 +23,9 @@ const config: AppConfig = {
   environment: import.meta.env.VITE_ENVIRONMENT || 'development',
   appName: import.meta.env.VITE_APP_NAME || 'Construction Bid Intelligence Platform',
   appVersion: import.meta.env.VITE_APP_VERSION || '1.0.0',
+  companyName: import.meta.env.VITE_COMPANY_NAME || '',
+  maxUploadSizeMb: parseNumber(import.meta.env.VITE_MAX_UPLOAD_SIZE_MB, 100),
+  uploadChunkSizeMb: parseNumber(import.meta.env.VITE_UPLOAD_CHUNK_SIZE_MB, 5),
 }
 
 // Helper to get full API URL
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isCancel, toApiError } from '../api/client'
+
+export type UploadItemStatus = 'checking' | 'invalid' | 'queued' | 'uploading' | 'done' | 'failed' | 'canceled'
+
+export interface UploadItem {
+  id: string
+  file: File
+  status: UploadItemStatus
+  // 0-100, from the HTTP layer's upload progress events
+  progress: number
+  error: string | null
+  // Transient message while the upload recovers, e.g. a chunk retry
+  notice: string | null
+  documentId: number | null
+}
+
+export interface UploadCallbacks {
+  signal: AbortSignal
+  onProgress: (percent: number) => void
+  onNotice: (notice: string | null) => void
+}
+
+// Uploads one file and resolves with the created document id
+export type UploadFn = (file: File, callbacks: UploadCallbacks) => Promise<number>
+
+interface UploadQueueOptions {
+  upload: UploadFn
+  // Resolves with an error message, or null when the file can be uploaded
+  validate: (file: File) => Promise<string | null>
+  concurrency: number
+}
+
+let nextItemId = 0
+
+export default function useUploadQueue({ upload, validate, concurrency }: UploadQueueOptions) {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [running, setRunning] = useState(false)
+  const controllers = useRef(new Map<string, AbortController>())
+  // Callers pass new closures each render; the scheduler always uses the latest
+  const uploadRef = useRef(upload)
+  const validateRef = useRef(validate)
+  const itemsRef = useRef(items)
+  uploadRef.current = upload
+  validateRef.current = validate
+  itemsRef.current = items
+  // Files are checked one at a time; reading big PDFs in parallel eats memory
+  const checkChain = useRef(Promise.resolve())
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }, [])
+
+  const addFiles = useCallback((files: File[]) => {
+    const added: UploadItem[] = []
+    for (const file of files) {
+      const duplicate = [...itemsRef.current, ...added].some(
+        item => item.file.name === file.name && item.file.size === file.size
+      )
+      if (duplicate) continue
+      added.push({
+        id: `upload-${nextItemId++}`,
+        file,
+        status: 'checking',
+        progress: 0,
+        error: null,
+        notice: null,
+        documentId: null,
+      })
+    }
+    setItems(prev => [...prev, ...added])
+
+    for (const item of added) {
+      checkChain.current = checkChain.current.then(async () => {
+        // Canceled or removed while waiting its turn
+        if (itemsRef.current.find(current => current.id === item.id)?.status !== 'checking') return
+        let error: string | null
+        try {
+          error = await validateRef.current(item.file)
+        } catch (err) {
+          console.error('Error checking file:', err)
+          error = 'The file could not be read'
+        }
+        // Only a still-checking item takes the result, so a cancel during the check sticks
+        setItems(prev => prev.map(current =>
+          current.id === item.id && current.status === 'checking'
+            ? { ...current, status: error ? 'invalid' : 'queued', error }
+            : current
+        ))
+      })
+    }
+  }, [])
+
+  const startItem = useCallback(async (item: UploadItem) => {
+    const controller = new AbortController()
+    controllers.current.set(item.id, controller)
+    try {
+      const documentId = await uploadRef.current(item.file, {
+        signal: controller.signal,
+        onProgress: (percent) => updateItem(item.id, { progress: percent }),
+        onNotice: (notice) => updateItem(item.id, { notice }),
+      })
+      updateItem(item.id, { status: 'done', progress: 100, notice: null, documentId })
+    } catch (err) {
+      if (isCancel(err) || controller.signal.aborted) {
+        updateItem(item.id, { status: 'canceled', notice: null })
+      } else {
+        console.error('Upload error:', err)
+        updateItem(item.id, { status: 'failed', notice: null, error: toApiError(err).message })
+      }
+    } finally {
+      controllers.current.delete(item.id)
+    }
+  }, [updateItem])
+
+  // Start queued items while there are free upload slots
+  useEffect(() => {
+    if (!running) return
+    const active = items.filter(item => item.status === 'uploading').length
+    const next = items.filter(item => item.status === 'queued').slice(0, Math.max(concurrency - active, 0))
+    if (next.length === 0) return
+
+    const ids = next.map(item => item.id)
+    setItems(prev => prev.map(item =>
+      ids.includes(item.id) ? { ...item, status: 'uploading', progress: 0, error: null } : item
+    ))
+    next.forEach(startItem)
+  }, [items, running, concurrency, startItem])
+
+  // Abort anything in flight when the page unmounts
+  useEffect(() => {
+    const active = controllers.current
+    return () => active.forEach(controller => controller.abort())
+  }, [])
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id)
+    if (controller) {
+      controller.abort()
+    } else {
+      updateItem(id, { status: 'canceled' })
+    }
+  }, [updateItem])
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', progress: 0, error: null })
+  }, [updateItem])
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    setItems(prev => prev.filter(item => item.id !== id))
+  }, [])
+
+  const reset = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort())
+    setItems([])
+    setRunning(false)
+  }, [])
+
+  return {
+    items,
+    running,
+    addFiles,
+    start: () => setRunning(true),
+    cancel,
+    retry,
+    remove,
+    reset,
+  }
+}
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { isCancel, toApiError } from '../api/client'
+import {
+  ANALYSIS_STAGES,
+  AnalysisJob,
+  AnalysisStageStatus,
+  getAnalysisStatus,
+  isJobFinished,
+  retryAnalysis,
+} from '../api/documents'
+import { useSession } from '../auth/SessionProvider'
+
+const POLL_INTERVAL_MS = 3000
+// Keep polling through brief outages, but stop if the server stays unreachable
+const MAX_CONSECUTIVE_ERRORS = 5
+
+export default function AnalysisStatus() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const { can } = useSession()
+  const [job, setJob] = useState<AnalysisJob | null>(null)
+  const [error, setError] = useState('')
+  const [retrying, setRetrying] = useState(false)
+  // Kept apart from the polling error, which means the server can't be reached
+  const [retryError, setRetryError] = useState('')
+  const [pollKey, setPollKey] = useState(0)
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let timeout: ReturnType<typeof setTimeout>
+    let errors = 0
+
+    const poll = async () => {
+      try {
+        const data = await getAnalysisStatus(id!, controller.signal)
+        setJob(data)
+        setError('')
+        errors = 0
+        if (isJobFinished(data)) return
+      } catch (err) {
+        if (isCancel(err)) return
+        console.error('Error loading analysis status:', err)
+        errors += 1
+        if (errors >= MAX_CONSECUTIVE_ERRORS) {
+          setError(toApiError(err).message)
+          return
+        }
+      }
+      timeout = setTimeout(poll, POLL_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      controller.abort()
+      clearTimeout(timeout)
+    }
+  }, [id, pollKey])
+
+  // Ticks the elapsed-time counter while the job runs
+  useEffect(() => {
+    if (!job || isJobFinished(job)) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [job?.status])
+
+  const handleRetry = async () => {
+    setRetrying(true)
+    setRetryError('')
+    try {
+      setJob(await retryAnalysis(id!))
+      setError('')
+      setPollKey(prev => prev + 1)
+    } catch (err) {
+      console.error('Error retrying analysis:', err)
+      setRetryError(toApiError(err).message)
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const getStageStatus = (key: string): AnalysisStageStatus => {
+    return job?.stages.find(stage => stage.key === key)?.status || 'pending'
+  }
+
+  const getStageIcon = (status: AnalysisStageStatus) => {
+    if (status === 'completed') return <span className="text-green-600">✓</span>
+    if (status === 'failed') return <span className="text-red-600">✕</span>
+    if (status === 'running') {
+      return <span className="inline-block w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></span>
+    }
+    return <span className="inline-block w-4 h-4 border-2 border-gray-300 rounded-full"></span>
+  }
+
+  const getStageTextColor = (status: AnalysisStageStatus) => {
+    if (status === 'completed') return 'text-gray-900'
+    if (status === 'failed') return 'text-red-700 font-medium'
+    if (status === 'running') return 'text-blue-700 font-medium'
+    return 'text-gray-500'
+  }
+
+  const completedStages = ANALYSIS_STAGES.filter(stage => getStageStatus(stage.key) === 'completed').length
+  const progress = Math.round((completedStages / ANALYSIS_STAGES.length) * 100)
+  const elapsedSeconds = job?.started_at
+    ? Math.max(Math.floor((now - new Date(job.started_at).getTime()) / 1000), 0)
+    : null
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate('/')}
+        className="text-blue-600 hover:text-blue-800 mb-6 flex items-center gap-2"
+      >
+        ← Back to Dashboard
+      </button>
+
+      <div className="bg-white rounded-lg shadow p-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Analyzing Document</h1>
+        <p className="text-gray-600 mb-6">
+          {job ? job.filename : 'Loading status...'}
+          {elapsedSeconds !== null && job && !isJobFinished(job) && (
+            <span className="text-gray-400"> · {elapsedSeconds}s elapsed (typically 30-90 seconds)</span>
+          )}
+        </p>
+
+        <div className="mb-6">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-600">
+              {job?.status === 'completed' ? 'Analysis complete' :
+               job?.status === 'failed' ? 'Analysis failed' :
+               job?.status === 'queued' ? 'Waiting in queue...' : 'Processing...'}
+            </span>
+            <span className="font-medium text-gray-900">{progress}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className={`h-2 rounded-full transition-all duration-300 ${job?.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'}`}
+              style={{ width: `${progress}%` }}
+            ></div>
+          </div>
+        </div>
+
+        <ol className="space-y-3 mb-6" aria-live="polite">
+          {ANALYSIS_STAGES.map((stage, idx) => {
+            const status = getStageStatus(stage.key)
+            const stageError = job?.stages.find(s => s.key === stage.key)?.error
+            return (
+              <li key={stage.key} className="flex items-start gap-3">
+                <span className="w-6 flex justify-center mt-0.5">{getStageIcon(status)}</span>
+                <div className="flex-1">
+                  <div className={`text-sm ${getStageTextColor(status)}`}>
+                    {idx + 1}. {stage.label}
+                  </div>
+                  {stageError && <div className="text-xs text-red-600 mt-1">{stageError}</div>}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            Lost contact with the server: {error}
+            <button
+              onClick={() => setPollKey(prev => prev + 1)}
+              className="ml-2 font-medium underline"
+            >
+              Check again
+            </button>
+          </div>
+        )}
+
+        {job?.status === 'failed' && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800 mb-3">
+              {job.error || 'The analysis could not be completed.'}
+            </p>
+            {retryError && (
+              <p className="text-sm text-red-700 mb-3" role="alert">Could not restart the analysis: {retryError}</p>
+            )}
+            {can('documents:upload') && (
+              <button
+                onClick={handleRetry}
+                disabled={retrying}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:bg-gray-400"
+              >
+                {retrying ? 'Retrying...' : 'Retry Analysis'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {job?.status === 'completed' && job.report_id !== null && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center justify-between">
+            <span className="font-medium text-green-800">Your report is ready.</span>
+            <button
+              onClick={() => navigate(`/report/${job.report_id}`)}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors"
+            >
+              View Report →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
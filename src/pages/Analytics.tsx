@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { isCancel } from '../api/client'
+import { ANALYTICS_PERIODS, GroupTotal, PortfolioAnalytics, getPortfolioAnalytics } from '../api/analytics'
+import { DEFAULT_REPORT_QUERY, ReportQuery, toSearchParams } from '../api/reports'
+import { formatCompact, formatCurrency, formatDate } from '../utils/format'
+
+interface DrillTarget {
+  label: string
+  filters: Partial<ReportQuery>
+}
+
+const DEFAULT_PERIOD = 12
+const TOP_GROUPS = 10
+
+const RECOMMENDATION_COLORS: Record<string, string> = {
+  YES: '#22c55e',
+  NO: '#ef4444',
+  CONDITIONAL: '#eab308',
+}
+
+const toIsoDate = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+// First day of the month, `months` months back including the current one
+const periodStart = (months: number) => {
+  const now = new Date()
+  return toIsoDate(new Date(now.getFullYear(), now.getMonth() - months + 1, 1))
+}
+
+const monthLabel = (month: string) => {
+  return new Date(`${month}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+}
+
+const monthEnd = (month: string) => {
+  const start = new Date(`${month}T00:00:00`)
+  return toIsoDate(new Date(start.getFullYear(), start.getMonth() + 1, 0))
+}
+
+const getRiskColor = (level: string) => {
+  if (level.includes('LOW')) return 'bg-green-100 text-green-800'
+  if (level.includes('MEDIUM')) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+// Keyboard and screen-reader route to the same drill-throughs as clicking the chart
+function DrillLinks({ targets, onSelect }: { targets: DrillTarget[]; onSelect: (target: DrillTarget) => void }) {
+  return (
+    <ul className="sr-only focus-within:not-sr-only focus-within:mt-3 focus-within:flex focus-within:flex-wrap focus-within:gap-2">
+      {targets.map(target => (
+        <li key={target.label}>
+          <button
+            onClick={() => onSelect(target)}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Show reports: {target.label}
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default function Analytics() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const months = Number(searchParams.get('months'))
+  const period = ANALYTICS_PERIODS.includes(months) ? months : DEFAULT_PERIOD
+  const dateFrom = periodStart(period)
+  const [analytics, setAnalytics] = useState<PortfolioAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadAnalytics(controller.signal)
+    return () => controller.abort()
+  }, [dateFrom])
+
+  const loadAnalytics = async (signal: AbortSignal) => {
+    setLoading(true)
+    try {
+      setAnalytics(await getPortfolioAnalytics(dateFrom, signal))
+      setLoading(false)
+    } catch (err) {
+      if (isCancel(err)) return
+      console.error('Error loading analytics:', err)
+      setLoading(false)
+    }
+  }
+
+  // Every drill-through keeps the page's period so the list matches the chart
+  const drillThrough = (filters: Partial<ReportQuery>) => {
+    const query = { ...DEFAULT_REPORT_QUERY, dateFrom, ...filters }
+    navigate(`/?${toSearchParams(query)}`)
+  }
+
+  const selectTarget = (target: DrillTarget) => drillThrough(target.filters)
+
+  const groupTargets = (groups: GroupTotal[], key: 'projectType' | 'location' | 'clientName') => {
+    return groups.slice(0, TOP_GROUPS).map(group => ({ label: group.name, filters: { [key]: group.name } }))
+  }
+
+  if (loading && !analytics) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-96 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!analytics) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <p className="text-gray-600">Analytics are not available right now.</p>
+      </div>
+    )
+  }
+
+  const riskData = analytics.risk_distribution.map(bin => ({ ...bin, label: `${bin.min}–${bin.max}` }))
+  const monthlyData = analytics.monthly.map(month => ({ ...month, label: monthLabel(month.month) }))
+  const totalTenders = analytics.monthly.reduce((sum, month) => sum + month.count, 0)
+  const totalValue = analytics.monthly.reduce((sum, month) => sum + month.value, 0)
+
+  const renderGroupChart = (title: string, groups: GroupTotal[], key: 'projectType' | 'location' | 'clientName') => {
+    const data = groups.slice(0, TOP_GROUPS)
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
+        {data.length === 0 ? (
+          <p className="text-sm text-gray-500">No tenders in this period</p>
+        ) : (
+          <figure className="h-64" aria-label={`${title}: ${data.map(g => `${g.name} ${g.count}`).join(', ')}`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }} accessibilityLayer>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                <YAxis type="category" dataKey="name" tick={{ fontSize: 12 }} width={120} />
+                <Tooltip
+                  formatter={(value: number, _name: string, item: { payload?: GroupTotal }) => [
+                    `${value} tenders · ${formatCurrency(item.payload?.value ?? 0)}`,
+                    item.payload?.name,
+                  ]}
+                />
+                <Bar
+                  dataKey="count"
+                  fill="#3b82f6"
+                  cursor="pointer"
+                  isAnimationActive={false}
+                  onClick={(entry: { payload?: GroupTotal }) => entry.payload && drillThrough({ [key]: entry.payload.name })}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </figure>
+        )}
+        <DrillLinks targets={groupTargets(groups, key)} onSelect={selectTarget} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">📈 Portfolio Analytics</h1>
+          <p className="text-gray-600">
+            {totalTenders} tenders worth {formatCurrency(totalValue)} since {formatDate(dateFrom)}.
+            Click any bar or slice to see its reports.
+          </p>
+        </div>
+        <select
+          aria-label="Period"
+          value={period}
+          onChange={(e) => setSearchParams({ months: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm"
+        >
+          {ANALYTICS_PERIODS.map(option => (
+            <option key={option} value={option}>Last {option} months</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Tender volume and value by month */}
+        <div className="bg-white rounded-lg shadow p-6 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Tender Volume & Value by Month</h2>
+          <figure className="h-72" aria-label={`Tenders per month: ${monthlyData.map(m => `${m.label} ${m.count}`).join(', ')}`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={monthlyData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }} accessibilityLayer>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="count" allowDecimals={false} tick={{ fontSize: 12 }} width={40} />
+                <YAxis yAxisId="value" orientation="right" tickFormatter={formatCompact} tick={{ fontSize: 12 }} width={60} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [name === 'Value' ? formatCurrency(value) : value, name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar
+                  yAxisId="count"
+                  dataKey="count"
+                  name="Tenders"
+                  fill="#3b82f6"
+                  cursor="pointer"
+                  isAnimationActive={false}
+                  onClick={(entry: { payload?: { month: string } }) =>
+                    entry.payload && drillThrough({ dateFrom: entry.payload.month, dateTo: monthEnd(entry.payload.month) })
+                  }
+                />
+                <Line yAxisId="value" dataKey="value" name="Value" stroke="#16a34a" strokeWidth={2} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </figure>
+          <DrillLinks
+            targets={analytics.monthly.map(month => ({
+              label: monthLabel(month.month),
+              filters: { dateFrom: month.month, dateTo: monthEnd(month.month) },
+            }))}
+            onSelect={selectTarget}
+          />
+        </div>
+
+        {/* Risk distribution */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Risk Score Distribution</h2>
+          <figure className="h-64" aria-label={`Tenders by risk score: ${riskData.map(bin => `${bin.label} ${bin.count}`).join(', ')}`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={riskData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }} barCategoryGap={1} accessibilityLayer>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={40} />
+                <Tooltip labelFormatter={(label) => `Risk score ${label}`} formatter={(value: number) => [value, 'Tenders']} />
+                <Bar
+                  dataKey="count"
+                  cursor="pointer"
+                  isAnimationActive={false}
+                  onClick={(entry: { payload?: { min: number; max: number } }) =>
+                    entry.payload && drillThrough({ riskMin: entry.payload.min, riskMax: entry.payload.max })
+                  }
+                >
+                  {riskData.map(bin => (
+                    <Cell key={bin.label} fill={bin.min >= 7 ? '#ef4444' : bin.min >= 4 ? '#eab308' : '#22c55e'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </figure>
+          <DrillLinks
+            targets={riskData.map(bin => ({ label: `risk ${bin.label}`, filters: { riskMin: bin.min, riskMax: bin.max } }))}
+            onSelect={selectTarget}
+          />
+        </div>
+
+        {/* Recommendation mix */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Recommendation Mix</h2>
+          <figure
+            className="h-64"
+            aria-label={`Recommendations: ${analytics.recommendations.map(r => `${r.recommendation} ${r.count}`).join(', ')}`}
+          >
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart accessibilityLayer>
+                <Pie
+                  data={analytics.recommendations}
+                  dataKey="count"
+                  nameKey="recommendation"
+                  innerRadius="55%"
+                  outerRadius="85%"
+                  cursor="pointer"
+                  isAnimationActive={false}
+                  onClick={(entry: { recommendation?: string }) =>
+                    entry.recommendation && drillThrough({ recommendation: entry.recommendation })
+                  }
+                >
+                  {analytics.recommendations.map(item => (
+                    <Cell key={item.recommendation} fill={RECOMMENDATION_COLORS[item.recommendation] || '#6b7280'} />
+                  ))}
+                </Pie>
+                <Tooltip formatter={(value: number, name: string) => [`${value} tenders`, name]} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+              </PieChart>
+            </ResponsiveContainer>
+          </figure>
+          <DrillLinks
+            targets={analytics.recommendations.map(item => ({
+              label: item.recommendation,
+              filters: { recommendation: item.recommendation },
+            }))}
+            onSelect={selectTarget}
+          />
+        </div>
+
+        {renderGroupChart('By Project Type', analytics.by_project_type, 'projectType')}
+        {renderGroupChart('By Location', analytics.by_location, 'location')}
+        {renderGroupChart('By Client', analytics.by_client, 'clientName')}
+
+        {/* Upcoming deadlines */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Upcoming Deadlines</h2>
+            <button
+              onClick={() => navigate(`/?${toSearchParams({ ...DEFAULT_REPORT_QUERY, deadlineWithinDays: 30 })}`)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Next 30 days →
+            </button>
+          </div>
+          {analytics.upcoming_deadlines.length === 0 ? (
+            <p className="text-sm text-gray-500">No upcoming deadlines</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {analytics.upcoming_deadlines.map(deadline => (
+                <li key={deadline.id}>
+                  <button
+                    onClick={() => navigate(`/report/${deadline.id}`)}
+                    className="w-full flex justify-between items-center gap-3 py-2 text-left hover:bg-gray-50"
+                  >
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{deadline.project_name}</div>
+                      <div className="text-xs text-gray-500">{deadline.client_name}</div>
+                    </div>
+                    <div className="text-right whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatDate(deadline.deadline_date)}</div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRiskColor(deadline.risk_level)}`}>
+                        {deadline.risk_level}
+                      </span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
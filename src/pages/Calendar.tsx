@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { isCancel, toApiError } from '../api/client'
+import { CalendarFeed, CalendarReport, getCalendarFeed, listCalendarReports, resetCalendarFeed } from '../api/calendar'
+import { addDays, dateKey, fromDateKey, toDateKey } from '../utils/deadlines'
+import { downloadCalendar } from '../utils/ical'
+import { reportFileName } from '../utils/reportExport'
+
+type CalendarView = 'month' | 'week'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const RISK_LEGEND = ['LOW', 'LOW-MEDIUM', 'MEDIUM', 'MEDIUM-HIGH', 'HIGH']
+
+// Five steps so neighbouring levels stay distinguishable on the grid
+const getRiskColor = (level: string) => {
+  const levelUpper = level.toUpperCase()
+  if (levelUpper === 'LOW-MEDIUM') return 'bg-lime-100 text-lime-900 border-lime-400'
+  if (levelUpper === 'MEDIUM-HIGH') return 'bg-orange-100 text-orange-900 border-orange-400'
+  if (levelUpper.includes('HIGH') || levelUpper.includes('VERY')) return 'bg-red-100 text-red-900 border-red-500'
+  if (levelUpper.includes('MEDIUM')) return 'bg-yellow-100 text-yellow-900 border-yellow-400'
+  if (levelUpper.includes('LOW')) return 'bg-green-100 text-green-900 border-green-500'
+  return 'bg-gray-100 text-gray-800 border-gray-400'
+}
+
+const startOfWeek = (key: string) => addDays(key, -fromDateKey(key).getDay())
+
+// Month grids always show six full weeks so the layout doesn't jump between months
+const visibleRange = (view: CalendarView, anchor: string) => {
+  if (view === 'week') {
+    const start = startOfWeek(anchor)
+    return { start, days: 7 }
+  }
+  const first = `${anchor.slice(0, 7)}-01`
+  return { start: startOfWeek(first), days: 42 }
+}
+
+const shiftAnchor = (view: CalendarView, anchor: string, direction: -1 | 1) => {
+  if (view === 'week') return addDays(anchor, direction * 7)
+  const date = fromDateKey(`${anchor.slice(0, 7)}-01`)
+  date.setMonth(date.getMonth() + direction)
+  return toDateKey(date)
+}
+
+export default function Calendar() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const view: CalendarView = searchParams.get('view') === 'week' ? 'week' : 'month'
+  const today = toDateKey(new Date())
+  const anchorParam = searchParams.get('date') || ''
+  const anchor = /^\d{4}-\d{2}-\d{2}$/.test(anchorParam) ? anchorParam : today
+  const [reports, setReports] = useState<CalendarReport[]>([])
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [showFeed, setShowFeed] = useState(false)
+  const [feedError, setFeedError] = useState('')
+
+  const range = visibleRange(view, anchor)
+  const rangeEnd = addDays(range.start, range.days - 1)
+  const days = Array.from({ length: range.days }, (_, idx) => addDays(range.start, idx))
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadReports(controller.signal)
+    return () => controller.abort()
+  }, [range.start, rangeEnd])
+
+  const loadReports = async (signal: AbortSignal) => {
+    setLoading(true)
+    try {
+      const data = await listCalendarReports(range.start, rangeEnd, signal)
+      setReports(data.reports)
+      setLoading(false)
+    } catch (err) {
+      if (isCancel(err)) return
+      console.error('Error loading calendar:', err)
+      setLoading(false)
+    }
+  }
+
+  const updateView = (nextView: CalendarView, nextAnchor: string) => {
+    setSearchParams({ view: nextView, date: nextAnchor })
+  }
+
+  // Every report's upcoming dates, not just the ones on screen; a report past its deadline
+  // can still have its award or start ahead
+  const handleExportAll = async () => {
+    setExporting(true)
+    try {
+      const data = await listCalendarReports('', '')
+      const upcoming = data.reports.filter(report =>
+        [report.deadline_date, report.award_date, report.start_date].some(date => date && dateKey(date) >= today)
+      )
+      downloadCalendar(upcoming, 'Tender dates', 'tender-dates.ics', today)
+    } catch (err) {
+      console.error('Error exporting calendar:', err)
+      alert('Could not export the calendar. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleToggleFeed = async () => {
+    setShowFeed(!showFeed)
+    if (showFeed || feed) return
+    setFeedError('')
+    try {
+      setFeed(await getCalendarFeed())
+    } catch (err) {
+      console.error('Error loading calendar feed:', err)
+      setFeedError(toApiError(err).message)
+    }
+  }
+
+  const handleResetFeed = async () => {
+    if (!confirm('Calendars subscribed with the current link will stop updating. Create a new link?')) return
+    setFeedError('')
+    try {
+      setFeed(await resetCalendarFeed())
+    } catch (err) {
+      console.error('Error resetting calendar feed:', err)
+      setFeedError(toApiError(err).message)
+    }
+  }
+
+  const handleCopyFeed = async () => {
+    if (!feed) return
+    try {
+      await navigator.clipboard.writeText(feed.url)
+      alert('Feed link copied to clipboard')
+    } catch {
+      prompt('Copy this link:', feed.url)
+    }
+  }
+
+  const byDay = new Map<string, CalendarReport[]>()
+  for (const report of reports) {
+    // Reports without an extracted deadline have no day to sit on
+    if (!report.deadline_date) continue
+    const key = dateKey(report.deadline_date)
+    byDay.set(key, [...(byDay.get(key) || []), report])
+  }
+
+  const title = view === 'month'
+    ? fromDateKey(anchor).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `${fromDateKey(range.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${fromDateKey(rangeEnd).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">📅 Tender Calendar</h1>
+          <p className="text-gray-600">Proposal deadlines, color-coded by risk level</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleToggleFeed}
+            aria-expanded={showFeed}
+            className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 font-medium transition-colors"
+          >
+            🔗 Subscribe to feed
+          </button>
+          <button
+            onClick={handleExportAll}
+            disabled={exporting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {exporting ? 'Generating...' : '📥 Download upcoming dates (.ics)'}
+          </button>
+        </div>
+      </div>
+
+      {showFeed && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <p className="text-sm text-gray-600 mb-3">
+            Add this link to Outlook, Google Calendar or Apple Calendar to see every report's deadline, award and start
+            dates, kept up to date. Anyone with the link can read it, so keep it private.
+          </p>
+          {feedError && <p className="text-sm text-red-600 mb-3" role="alert">{feedError}</p>}
+          {feed ? (
+            <div className="flex flex-wrap gap-2">
+              <label htmlFor="calendar-feed-url" className="sr-only">Calendar feed link</label>
+              <input
+                id="calendar-feed-url"
+                type="text"
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-[240px] px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+              />
+              <button onClick={handleCopyFeed} className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm">
+                Copy link
+              </button>
+              <a
+                href={feed.url.replace(/^https?:/, 'webcal:')}
+                className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+              >
+                Open in calendar app
+              </a>
+              <button onClick={handleResetFeed} className="px-3 py-2 text-sm text-red-600 hover:text-red-800">
+                Reset link
+              </button>
+            </div>
+          ) : (
+            !feedError && <p className="text-sm text-gray-500">Loading feed link...</p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => updateView(view, shiftAnchor(view, anchor, -1))}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50"
+              aria-label={`Previous ${view}`}
+            >
+              ←
+            </button>
+            <button
+              onClick={() => updateView(view, today)}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => updateView(view, shiftAnchor(view, anchor, 1))}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50"
+              aria-label={`Next ${view}`}
+            >
+              →
+            </button>
+            <h2 className="ml-2 text-xl font-semibold text-gray-900" aria-live="polite">{title}</h2>
+          </div>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Calendar view">
+            {(['month', 'week'] as CalendarView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => updateView(option, anchor)}
+                aria-pressed={view === option}
+                className={`px-3 py-1 capitalize ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase text-center">{day}</div>
+          ))}
+        </div>
+
+        <div className={`grid grid-cols-7 ${loading ? 'opacity-60' : ''}`}>
+          {days.map(day => {
+            const dayReports = byDay.get(day) || []
+            const outsideMonth = view === 'month' && day.slice(0, 7) !== anchor.slice(0, 7)
+            return (
+              <div
+                key={day}
+                className={`border-b border-r border-gray-100 p-1 ${view === 'week' ? 'min-h-[320px]' : 'min-h-[110px]'} ${
+                  outsideMonth ? 'bg-gray-50' : ''
+                }`}
+              >
+                <div
+                  className={`text-xs mb-1 w-6 h-6 flex items-center justify-center rounded-full ${
+                    day === today ? 'bg-blue-600 text-white font-bold' : outsideMonth ? 'text-gray-400' : 'text-gray-700'
+                  }`}
+                >
+                  {fromDateKey(day).getDate()}
+                </div>
+                <ul className="space-y-1">
+                  {dayReports.map(report => (
+                    <li key={report.id} className={`border-l-4 rounded px-1 py-0.5 text-xs ${getRiskColor(report.risk_level)}`}>
+                      <button
+                        onClick={() => navigate(`/report/${report.id}`)}
+                        className="block w-full text-left truncate font-medium"
+                        title={`${report.project_name} · ${report.client_name} · ${report.risk_level}`}
+                      >
+                        {report.project_name}
+                      </button>
+                      {view === 'week' && (
+                        <>
+                          <div className="truncate">{report.client_name}</div>
+                          <div>Risk {report.risk_score.toFixed(1)} · {report.risk_level}</div>
+                          <button
+                            onClick={() => downloadCalendar([report], report.project_name, reportFileName(report, 'ics'))}
+                            className="mt-1 underline"
+                          >
+                            Add to calendar
+                          </button>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="px-6 py-3 flex flex-wrap gap-3 text-xs text-gray-600">
+          {RISK_LEGEND.map(level => (
+            <span key={level} className={`border-l-4 rounded px-2 py-0.5 ${getRiskColor(level)}`}>{level}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,92 +1,122 @@
 import { useState, useEffect } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
-import axios from 'axios'
-
-interface ComparisonReport {
-  id: number
-  project_name: string
-  client_name: string
-  location: string
-  budget_min: number
-  budget_max: number
-  duration_months: number
-  risk_score: number
-  risk_level: string
-  participation_recommendation: string
-  deadline_date: string
-  risk_assessment: {
-    red_flags: string[]
-  }
-}
+import { isCancel } from '../api/client'
+import {
+  CompareSelection,
+  ComparisonReport,
+  MAX_COMPARE_REPORTS,
+  MIN_COMPARE_REPORTS,
+  ReportSummary,
+  compareReports,
+  parseCompareSelection,
+  toCompareSearchParams,
+} from '../api/reports'
+import { DEFAULT_SCORING_MODEL, ScoringModel, getScoringModel, saveScoringModel } from '../api/scoring'
+import { useSession } from '../auth/SessionProvider'
+import AdjustedBadge from '../components/AdjustedBadge'
+import ComparisonBreakdown from '../components/ComparisonBreakdown'
+import ComparisonPicker from '../components/ComparisonPicker'
+import ScoringModelEditor from '../components/ScoringModelEditor'
+import { ComparableKey, findBestOpportunity, getRedFlagsFlag, getValueFlag } from '../utils/comparison'
+import { exportComparisonCsv, exportComparisonXlsx } from '../utils/comparisonExport'
+import { formatCurrency, formatDate } from '../utils/format'
+import { scoreReport } from '../utils/scoring'
 
 export default function Comparison() {
   const navigate = useNavigate()
-  const [searchParams] = useSearchParams()
-  const [reports, setReports] = useState<ComparisonReport[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { can } = useSession()
+  const selection = parseCompareSelection(searchParams)
+  const [loadedReports, setLoadedReports] = useState<ComparisonReport[]>([])
+  // Names of just-added projects, shown in the picker until their data arrives
+  const [addedNames, setAddedNames] = useState<Record<number, string>>({})
   const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [scoringModel, setScoringModel] = useState<ScoringModel>(DEFAULT_SCORING_MODEL)
+  const [editingModel, setEditingModel] = useState(false)
+
+  // Refetch only when the set of projects changes; reordering and pinning happen in place
+  const idsKey = [...selection.ids].sort((a, b) => a - b).join(',')
 
   useEffect(() => {
-    loadComparison()
+    loadScoringModel()
   }, [])
 
-  const loadComparison = async () => {
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',').map(Number) : []
+    if (ids.length < MIN_COMPARE_REPORTS) {
+      setLoadedReports(prev => prev.filter(report => ids.includes(report.id)))
+      setLoading(false)
+      return
+    }
+    const controller = new AbortController()
+    loadComparison(ids, controller.signal)
+    return () => controller.abort()
+  }, [idsKey])
+
+  const loadScoringModel = async () => {
+    try {
+      setScoringModel(await getScoringModel())
+    } catch (err) {
+      // Scores fall back to the default model
+      console.error('Error loading scoring model:', err)
+    }
+  }
+
+  const handleSaveModel = async (model: ScoringModel) => {
+    setScoringModel(await saveScoringModel(model))
+    setEditingModel(false)
+  }
+
+  const loadComparison = async (ids: number[], signal: AbortSignal) => {
     try {
-      const ids = searchParams.get('ids')?.split(',').map(Number) || []
-      if (ids.length < 2) {
-        navigate('/')
-        return
-      }
-
-      const response = await axios.post('/api/reports/compare', ids)
-      setReports(response.data.reports)
+      const data = await compareReports(ids, signal)
+      setLoadedReports(data.reports)
     } catch (err) {
+      if (isCancel(err)) return
       console.error('Error loading comparison:', err)
     } finally {
-      setLoading(false)
+      if (!signal.aborted) setLoading(false)
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount)
+  const updateSelection = (next: CompareSelection) => {
+    // Pinned columns always lead
+    const ids = [...next.ids.filter(id => next.pinned.includes(id)), ...next.ids.filter(id => !next.pinned.includes(id))]
+    setSearchParams(toCompareSearchParams({ ids, pinned: next.pinned }), { replace: true })
   }
 
-  const getBestValue = (key: 'budget_min' | 'budget_max' | 'risk_score' | 'duration_months', reports: ComparisonReport[]) => {
-    if (key === 'risk_score') {
-      return Math.min(...reports.map(r => r.risk_score))
-    }
-    if (key === 'duration_months') {
-      return Math.min(...reports.map(r => r.duration_months))
-    }
-    if (key === 'budget_max') {
-      return Math.max(...reports.map(r => r.budget_max))
-    }
-    return Math.min(...reports.map(r => r.budget_min))
+  const handleAdd = (report: ReportSummary) => {
+    if (selection.ids.length >= MAX_COMPARE_REPORTS || selection.ids.includes(report.id)) return
+    setAddedNames(prev => ({ ...prev, [report.id]: report.project_name }))
+    updateSelection({ ...selection, ids: [...selection.ids, report.id] })
   }
 
-  const getWorstValue = (key: 'budget_min' | 'budget_max' | 'risk_score' | 'duration_months', reports: ComparisonReport[]) => {
-    if (key === 'risk_score') {
-      return Math.max(...reports.map(r => r.risk_score))
-    }
-    if (key === 'duration_months') {
-      return Math.max(...reports.map(r => r.duration_months))
-    }
-    if (key === 'budget_max') {
-      return Math.min(...reports.map(r => r.budget_max))
-    }
-    return Math.max(...reports.map(r => r.budget_min))
+  const handleRemove = (id: number) => {
+    updateSelection({ ids: selection.ids.filter(i => i !== id), pinned: selection.pinned.filter(i => i !== id) })
+  }
+
+  const handleMove = (id: number, direction: -1 | 1) => {
+    const ids = [...selection.ids]
+    const from = ids.indexOf(id)
+    const to = from + direction
+    // Columns don't cross between the pinned and unpinned groups
+    if (to < 0 || to >= ids.length || selection.pinned.includes(ids[to]) !== selection.pinned.includes(id)) return
+    ;[ids[from], ids[to]] = [ids[to], ids[from]]
+    updateSelection({ ...selection, ids })
+  }
+
+  const handleTogglePin = (id: number) => {
+    const pinned = selection.pinned.includes(id)
+      ? selection.pinned.filter(i => i !== id)
+      : [...selection.pinned, id]
+    updateSelection({ ...selection, pinned })
   }
 
-  const getValueColor = (value: number, key: 'budget_min' | 'budget_max' | 'risk_score' | 'duration_months') => {
-    const best = getBestValue(key, reports)
-    const worst = getWorstValue(key, reports)
-    
-    if (value === best) return 'bg-green-100 text-green-800 font-bold'
-    if (value === worst) return 'bg-red-100 text-red-800'
+  const getValueColor = (value: number, key: ComparableKey) => {
+    const flag = getValueFlag(value, key, reports)
+    if (flag === 'best') return 'bg-green-100 text-green-800 font-bold'
+    if (flag === 'worst') return 'bg-red-100 text-red-800'
     return ''
   }
 
@@ -96,24 +126,32 @@ export default function Comparison() {
     return 'bg-yellow-500 text-white'
   }
 
-  const findBestOpportunity = () => {
-    if (reports.length === 0) return null
-    
-    // Score each report (lower is better)
-    const scores = reports.map(report => {
-      let score = 0
-      score += report.risk_score * 10 // Risk is important
-      score += report.risk_assessment.red_flags.length * 5 // Red flags matter
-      score += report.participation_recommendation === 'NO' ? 50 : 0
-      score += report.participation_recommendation === 'YES' ? -20 : 0
-      return { report, score }
-    })
-    
-    scores.sort((a, b) => a.score - b.score)
-    return scores[0].report
+  const handleExportXlsx = async () => {
+    setExporting(true)
+    try {
+      await exportComparisonXlsx(reports, scoringModel)
+    } catch (err) {
+      console.error('Error exporting comparison:', err)
+      alert('Could not generate the Excel file. Please try again.')
+    } finally {
+      setExporting(false)
+    }
   }
 
-  const bestOpportunity = findBestOpportunity()
+  const reportsById = new Map(loadedReports.map(report => [report.id, report]))
+  const reports = selection.ids
+    .map(id => reportsById.get(id))
+    .filter((report): report is ComparisonReport => report !== undefined)
+  const columns = selection.ids.map(id => ({
+    id,
+    name: reportsById.get(id)?.project_name || addedNames[id] || `Report #${id}`,
+    pinned: selection.pinned.includes(id),
+  }))
+
+  const comparing = reports.length >= MIN_COMPARE_REPORTS
+  const bestOpportunity = findBestOpportunity(reports, scoringModel)
+  const scores = new Map(reports.map(report => [report.id, scoreReport(report, scoringModel)]))
+  const bestScore = Math.max(...Array.from(scores.values()).map(score => score.total))
 
   if (loading) {
     return (
@@ -140,20 +178,46 @@ export default function Comparison() {
           <h1 className="text-3xl font-bold text-gray-900">
             Comparing {reports.length} Reports
           </h1>
-          <button
-            onClick={() => alert('CSV export functionality would be implemented here')}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
-          >
-            📥 Export CSV
-          </button>
+          {comparing && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setEditingModel(!editingModel)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors"
+              >
+                ⚙️ Scoring Model
+              </button>
+              <button
+                onClick={() => exportComparisonCsv(reports, scoringModel)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+              >
+                📥 Export CSV
+              </button>
+              <button
+                onClick={handleExportXlsx}
+                disabled={exporting}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {exporting ? 'Generating...' : '📊 Export Excel'}
+              </button>
+            </div>
+          )}
         </div>
 
-        {bestOpportunity && (
+        <ComparisonPicker
+          columns={columns}
+          onAdd={handleAdd}
+          onRemove={handleRemove}
+          onMove={handleMove}
+          onTogglePin={handleTogglePin}
+        />
+
+        {comparing && bestOpportunity && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
             <h3 className="font-semibold text-green-900 mb-2">💡 AI Recommendation</h3>
             <p className="text-green-800">
               <strong>Best opportunity: {bestOpportunity.project_name}</strong> - 
-              Lowest risk ({bestOpportunity.risk_score.toFixed(1)}), 
+              bid score {Math.round(scores.get(bestOpportunity.id)!.total)}/100, 
+              risk {bestOpportunity.risk_score.toFixed(1)}, 
               {bestOpportunity.risk_assessment.red_flags.length} red flags, 
               recommendation: {bestOpportunity.participation_recommendation}
             </p>
@@ -161,195 +225,250 @@ export default function Comparison() {
         )}
       </div>
 
-      <div className="bg-white rounded-lg shadow overflow-x-auto">
-        <table className="w-full">
-          <thead className="bg-gray-50">
-            <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50">
-                Metric
-              </th>
-              {reports.map(report => (
-                <th key={report.id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">
-                  {report.project_name}
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {/* Client */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Client
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
-                  {report.client_name}
-                </td>
-              ))}
-            </tr>
-
-            {/* Location */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Location
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
-                  {report.location}
-                </td>
-              ))}
-            </tr>
-
-            {/* Budget Range */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Budget Range
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${getValueColor(report.budget_max, 'budget_max')}`}>
-                  {formatCurrency(report.budget_min)} - {formatCurrency(report.budget_max)}
-                </td>
-              ))}
-            </tr>
-
-            {/* Risk Score */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Risk Score
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${getValueColor(report.risk_score, 'risk_score')}`}>
-                  <div className="flex items-center gap-2">
-                    <span className="text-2xl font-bold">{report.risk_score.toFixed(1)}</span>
-                    <span className="text-xs text-gray-500">/ 10</span>
-                  </div>
-                </td>
-              ))}
-            </tr>
-
-            {/* Risk Level */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Risk Level
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm">
-                  <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                    report.risk_level.includes('LOW') ? 'bg-green-100 text-green-800' :
-                    report.risk_level.includes('MEDIUM') ? 'bg-yellow-100 text-yellow-800' :
-                    'bg-red-100 text-red-800'
-                  }`}>
-                    {report.risk_level}
-                  </span>
-                </td>
-              ))}
-            </tr>
-
-            {/* Duration */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Duration
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${getValueColor(report.duration_months, 'duration_months')}`}>
-                  {report.duration_months} months
-                </td>
-              ))}
-            </tr>
-
-            {/* Red Flags */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Red Flags
-              </td>
-              {reports.map(report => {
-                const count = report.risk_assessment.red_flags.length
-                return (
-                  <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${
-                    count === 0 ? 'bg-green-100 text-green-800 font-bold' :
-                    count >= 3 ? 'bg-red-100 text-red-800' : ''
-                  }`}>
-                    {count} {count === 1 ? 'flag' : 'flags'}
+      {editingModel && (
+        <ScoringModelEditor
+          model={scoringModel}
+          canEdit={can('scoring:manage')}
+          onSave={handleSaveModel}
+          onClose={() => setEditingModel(false)}
+        />
+      )}
+
+      {!comparing ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center">
+          <p className="text-gray-600">
+            Add at least {MIN_COMPARE_REPORTS} projects to compare them side by side.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50">
+                    Metric
+                  </th>
+                  {reports.map(report => (
+                    <th key={report.id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">
+                      {report.project_name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {/* Bid Score */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white align-top">
+                    Bid Score
                   </td>
-                )
-              })}
-            </tr>
-
-            {/* Deadline */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Proposal Deadline
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
-                  {new Date(report.deadline_date).toLocaleDateString()}
-                </td>
-              ))}
-            </tr>
-
-            {/* Recommendation */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Recommendation
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm">
-                  <span className={`px-4 py-2 rounded-lg font-bold ${getRecommendationColor(report.participation_recommendation)}`}>
-                    {report.participation_recommendation}
-                  </span>
-                </td>
-              ))}
-            </tr>
-
-            {/* Actions */}
-            <tr className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
-                Actions
-              </td>
-              {reports.map(report => (
-                <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm">
-                  <button
-                    onClick={() => navigate(`/report/${report.id}`)}
-                    className="text-blue-600 hover:text-blue-800 font-medium"
-                  >
-                    View Full Report →
-                  </button>
-                </td>
-              ))}
-            </tr>
-          </tbody>
-        </table>
-      </div>
+                  {reports.map(report => {
+                    const score = scores.get(report.id)!
+                    return (
+                      <td key={report.id} className="px-6 py-4 text-sm align-top">
+                        <div className={`inline-flex items-baseline gap-1 px-2 rounded ${
+                          score.total === bestScore ? 'bg-green-100 text-green-800' : 'text-gray-900'
+                        }`}>
+                          <span className="text-2xl font-bold">{Math.round(score.total)}</span>
+                          <span className="text-xs">/ 100</span>
+                        </div>
+                        <ul className="mt-2 space-y-1">
+                          {score.factors.map(factor => (
+                            <li key={factor.key} className="flex justify-between gap-3 text-xs text-gray-600">
+                              <span title={factor.value}>{factor.label}</span>
+                              <span className="font-medium text-gray-900">{factor.points.toFixed(1)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    )
+                  })}
+                </tr>
 
-      <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-6">
-        <h3 className="font-semibold text-blue-900 mb-3">📊 Summary Statistics</h3>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
-          <div>
-            <div className="text-blue-700">Average Risk Score</div>
-            <div className="text-2xl font-bold text-blue-900">
-              {(reports.reduce((sum, r) => sum + r.risk_score, 0) / reports.length).toFixed(1)}
-            </div>
-          </div>
-          <div>
-            <div className="text-blue-700">Average Budget</div>
-            <div className="text-2xl font-bold text-blue-900">
-              {formatCurrency(reports.reduce((sum, r) => sum + (r.budget_min + r.budget_max) / 2, 0) / reports.length)}
-            </div>
-          </div>
-          <div>
-            <div className="text-blue-700">Average Duration</div>
-            <div className="text-2xl font-bold text-blue-900">
-              {Math.round(reports.reduce((sum, r) => sum + r.duration_months, 0) / reports.length)} months
-            </div>
+                {/* Client */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Client
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {report.client_name}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Location */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Location
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {report.location}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Budget Range */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Budget Range
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${getValueColor(report.budget_max, 'budget_max')}`}>
+                      {formatCurrency(report.budget_min)} - {formatCurrency(report.budget_max)}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Risk Score */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Risk Score
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${getValueColor(report.risk_score, 'risk_score')}`}>
+                      <div className="flex items-center gap-2">
+                        <span className="text-2xl font-bold">{report.risk_score.toFixed(1)}</span>
+                        <span className="text-xs text-gray-500">/ 10</span>
+                        {report.adjusted_fields.includes('risk_score') && <AdjustedBadge />}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Risk Level */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Risk Level
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                        report.risk_level.includes('LOW') ? 'bg-green-100 text-green-800' :
+                        report.risk_level.includes('MEDIUM') ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-red-100 text-red-800'
+                      }`}>
+                        {report.risk_level}
+                      </span>
+                      {report.adjusted_fields.includes('risk_level') && <span className="ml-2"><AdjustedBadge /></span>}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Duration */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Duration
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${getValueColor(report.duration_months, 'duration_months')}`}>
+                      {report.duration_months} months
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Red Flags */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Red Flags
+                  </td>
+                  {reports.map(report => {
+                    const count = report.risk_assessment.red_flags.length
+                    const flag = getRedFlagsFlag(count)
+                    return (
+                      <td key={report.id} className={`px-6 py-4 whitespace-nowrap text-sm ${
+                        flag === 'best' ? 'bg-green-100 text-green-800 font-bold' :
+                        flag === 'worst' ? 'bg-red-100 text-red-800' : ''
+                      }`}>
+                        {count} {count === 1 ? 'flag' : 'flags'}
+                      </td>
+                    )
+                  })}
+                </tr>
+
+                {/* Deadline */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Proposal Deadline
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {formatDate(report.deadline_date)}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Recommendation */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Recommendation
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-4 py-2 rounded-lg font-bold ${getRecommendationColor(report.participation_recommendation)}`}>
+                        {report.participation_recommendation}
+                      </span>
+                      {report.adjusted_fields.includes('participation_recommendation') && (
+                        <span className="ml-2"><AdjustedBadge /></span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Actions */}
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 sticky left-0 bg-white">
+                    Actions
+                  </td>
+                  {reports.map(report => (
+                    <td key={report.id} className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => navigate(`/report/${report.id}`)}
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        View Full Report →
+                      </button>
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
           </div>
-          <div>
-            <div className="text-blue-700">Total Red Flags</div>
-            <div className="text-2xl font-bold text-blue-900">
-              {reports.reduce((sum, r) => sum + r.risk_assessment.red_flags.length, 0)}
+
+          <ComparisonBreakdown reports={reports} />
+
+          <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-6">
+            <h3 className="font-semibold text-blue-900 mb-3">📊 Summary Statistics</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-blue-700">Average Risk Score</div>
+                <div className="text-2xl font-bold text-blue-900">
+                  {(reports.reduce((sum, r) => sum + r.risk_score, 0) / reports.length).toFixed(1)}
+                </div>
+              </div>
+              <div>
+                <div className="text-blue-700">Average Budget</div>
+                <div className="text-2xl font-bold text-blue-900">
+                  {formatCurrency(reports.reduce((sum, r) => sum + (r.budget_min + r.budget_max) / 2, 0) / reports.length)}
+                </div>
+              </div>
+              <div>
+                <div className="text-blue-700">Average Duration</div>
+                <div className="text-2xl font-bold text-blue-900">
+                  {Math.round(reports.reduce((sum, r) => sum + r.duration_months, 0) / reports.length)} months
+                </div>
+              </div>
+              <div>
+                <div className="text-blue-700">Total Red Flags</div>
+                <div className="text-2xl font-bold text-blue-900">
+                  {reports.reduce((sum, r) => sum + r.risk_assessment.red_flags.length, 0)}
+                </div>
+              </div>
             </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
     </div>
   )
 }
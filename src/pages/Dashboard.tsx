@@ -1,16 +1,29 @@
-import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
-import axios from 'axios'
-
-interface Report {
-  id: number
-  project_name: string
-  client_name: string
-  risk_score: number
-  risk_level: string
-  budget_avg: number
-  created_at: string
-}
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import api, { isCancel } from '../api/client'
+import { fieldLabel } from '../api/overrides'
+import {
+  DEADLINE_WINDOWS,
+  MAX_COMPARE_REPORTS,
+  MIN_COMPARE_REPORTS,
+  PAGE_SIZES,
+  RECOMMENDATIONS,
+  RISK_LEVELS,
+  ReportQuery,
+  ReportSortField,
+  ReportSummary,
+  clearFilters,
+  hasActiveFilters,
+  listReports,
+  parseReportQuery,
+  toCompareSearchParams,
+  toSearchParams,
+} from '../api/reports'
+import { SavedView, createView, deleteView, isLocalView, listViews, setDefaultView } from '../api/views'
+import { useSession } from '../auth/SessionProvider'
+import AdjustedBadge from '../components/AdjustedBadge'
+import SavedViewTabs from '../components/SavedViewTabs'
+import { formatCurrency } from '../utils/format'
 
 interface Stats {
   total_documents: number
@@ -19,27 +32,174 @@ interface Stats {
   average_risk_score: number
 }
 
+// Free-text filters wait for the user to stop typing before hitting the API
+type TextFilter = 'search' | 'projectType' | 'location' | 'clientName'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// Views are compared without paging so a saved view stays active while paging through it
+const viewKey = (query: ReportQuery) => toSearchParams({ ...query, page: 1 }).toString()
+
 export default function Dashboard() {
   const navigate = useNavigate()
+  const { can, user } = useSession()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = parseReportQuery(searchParams)
+  // Only an unfiltered landing on the Dashboard opens the default view
+  const landedWithoutQuery = useRef(searchParams.toString() === '')
+  const [views, setViews] = useState<SavedView[]>([])
   const [stats, setStats] = useState<Stats | null>(null)
-  const [reports, setReports] = useState<Report[]>([])
+  const [reports, setReports] = useState<ReportSummary[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
   const [selectedReports, setSelectedReports] = useState<number[]>([])
-  const [searchQuery, setSearchQuery] = useState('')
+  const [selectionLimitHit, setSelectionLimitHit] = useState(false)
+  const [drafts, setDrafts] = useState<Record<TextFilter, string>>({
+    search: query.search,
+    projectType: query.projectType,
+    location: query.location,
+    clientName: query.clientName,
+  })
+
+  const queryKey = searchParams.toString()
 
   useEffect(() => {
-    loadDashboard()
+    loadStats()
   }, [])
 
-  const loadDashboard = async () => {
+  useEffect(() => {
+    if (user) loadViews(user.id)
+  }, [user?.id])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadReports(controller.signal)
+    return () => controller.abort()
+  }, [queryKey])
+
+  // Keep the text inputs in step with the URL (e.g. back/forward navigation)
+  useEffect(() => {
+    setDrafts({ search: query.search, projectType: query.projectType, location: query.location, clientName: query.clientName })
+  }, [query.search, query.projectType, query.location, query.clientName])
+
+  useEffect(() => {
+    if (
+      drafts.search === query.search && drafts.projectType === query.projectType &&
+      drafts.location === query.location && drafts.clientName === query.clientName
+    ) {
+      return
+    }
+    const timeout = setTimeout(() => updateQuery(drafts), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [drafts, queryKey])
+
+  const loadStats = async () => {
+    try {
+      setStats(await api.get<Stats>('/api/dashboard/stats'))
+    } catch (err) {
+      console.error('Error loading dashboard stats:', err)
+    }
+  }
+
+  const loadViews = async (userId: number) => {
+    try {
+      const data = await listViews(userId)
+      setViews(data)
+      const defaultView = data.find(v => v.is_default)
+      if (defaultView && landedWithoutQuery.current && !window.location.search) {
+        setSearchParams(new URLSearchParams(defaultView.params), { replace: true })
+      }
+    } catch (err) {
+      console.error('Error loading saved views:', err)
+    } finally {
+      landedWithoutQuery.current = false
+    }
+  }
+
+  const loadReports = async (signal: AbortSignal) => {
+    setLoading(true)
+    try {
+      const data = await listReports(query, signal)
+      setReports(data.reports)
+      setTotal(data.total)
+      setLoading(false)
+    } catch (err) {
+      if (isCancel(err)) return
+      console.error('Error loading reports:', err)
+      setLoading(false)
+    }
+  }
+
+  // Any change other than paging itself goes back to the first page
+  const updateQuery = (changes: Partial<ReportQuery>) => {
+    const next = { ...query, ...changes }
+    if (!('page' in changes)) {
+      next.page = 1
+    }
+    setSearchParams(toSearchParams(next))
+  }
+
+  const handleSort = (field: ReportSortField) => {
+    if (query.sortBy === field) {
+      updateQuery({ sortDir: query.sortDir === 'asc' ? 'desc' : 'asc' })
+    } else {
+      updateQuery({ sortBy: field, sortDir: field === 'created_at' ? 'desc' : 'asc' })
+    }
+  }
+
+  const handleClearFilters = () => {
+    setSearchParams(toSearchParams(clearFilters(query)))
+  }
+
+  const currentViewKey = viewKey(query)
+  const activeViewId = currentViewKey
+    ? views.find(v => viewKey(parseReportQuery(new URLSearchParams(v.params))) === currentViewKey)?.id ?? null
+    : null
+
+  const handleSelectView = (view: SavedView | null) => {
+    setSearchParams(new URLSearchParams(view ? view.params : ''))
+  }
+
+  const handleSaveView = async (name: string, isDefault: boolean) => {
+    if (!user) return
     try {
-      const [statsRes, reportsRes] = await Promise.all([
-        axios.get('/api/dashboard/stats'),
-        axios.get('/api/reports')
+      const view = await createView(user.id, { name, params: currentViewKey, is_default: isDefault })
+      setViews(prev => [
+        ...(isDefault ? prev.map(v => ({ ...v, is_default: false })) : prev),
+        view,
       ])
-      setStats(statsRes.data)
-      setReports(reportsRes.data.reports)
     } catch (err) {
-      console.error('Error loading dashboard:', err)
+      console.error('Error saving view:', err)
+      alert('Could not save this view. Please try again.')
+    }
+  }
+
+  const handleSetDefaultView = async (view: SavedView | null) => {
+    if (!user) return
+    try {
+      setViews(await setDefaultView(user.id, view ? view.id : null))
+    } catch (err) {
+      console.error('Error setting default view:', err)
+    }
+  }
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!user || !confirm(`Delete the view "${view.name}"?`)) return
+    try {
+      await deleteView(user.id, view.id)
+      setViews(prev => prev.filter(v => v.id !== view.id))
+    } catch (err) {
+      console.error('Error deleting view:', err)
+      alert('Could not delete this view. Please try again.')
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      alert('Link copied to clipboard')
+    } catch {
+      prompt('Copy this link:', window.location.href)
     }
   }
 
@@ -49,33 +209,52 @@ export default function Dashboard() {
     return 'bg-red-100 text-red-800'
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount)
+  const toggleReportSelection = (reportId: number) => {
+    if (selectedReports.includes(reportId)) {
+      setSelectedReports(selectedReports.filter(id => id !== reportId))
+      setSelectionLimitHit(false)
+    } else if (selectedReports.length >= MAX_COMPARE_REPORTS) {
+      setSelectionLimitHit(true)
+    } else {
+      setSelectedReports([...selectedReports, reportId])
+    }
   }
 
-  const toggleReportSelection = (reportId: number) => {
-    setSelectedReports(prev =>
-      prev.includes(reportId)
-        ? prev.filter(id => id !== reportId)
-        : [...prev, reportId]
-    )
+  const pageIds = reports.map(r => r.id)
+  const allPageSelected = pageIds.length > 0 && pageIds.every(id => selectedReports.includes(id))
+
+  const togglePageSelection = (checked: boolean) => {
+    if (!checked) {
+      setSelectedReports(selectedReports.filter(id => !pageIds.includes(id)))
+      setSelectionLimitHit(false)
+      return
+    }
+    // Fill up to the comparison limit and say so when rows were left out
+    const additions = pageIds.filter(id => !selectedReports.includes(id))
+    const room = MAX_COMPARE_REPORTS - selectedReports.length
+    setSelectedReports([...selectedReports, ...additions.slice(0, Math.max(room, 0))])
+    setSelectionLimitHit(additions.length > room)
   }
 
   const handleCompare = () => {
-    if (selectedReports.length >= 2 && selectedReports.length <= 5) {
-      navigate(`/compare?ids=${selectedReports.join(',')}`)
+    if (selectedReports.length >= MIN_COMPARE_REPORTS && selectedReports.length <= MAX_COMPARE_REPORTS) {
+      navigate(`/compare?${toCompareSearchParams({ ids: selectedReports, pinned: [] })}`)
     }
   }
 
-  const filteredReports = reports.filter(report =>
-    report.project_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    report.client_name.toLowerCase().includes(searchQuery.toLowerCase())
-  )
+  const totalPages = Math.max(Math.ceil(total / query.pageSize), 1)
+  const firstRow = total === 0 ? 0 : (query.page - 1) * query.pageSize + 1
+  const lastRow = Math.min(query.page * query.pageSize, total)
+
+  const sortIndicator = (field: ReportSortField) => {
+    if (query.sortBy !== field) return '↕'
+    return query.sortDir === 'asc' ? '▲' : '▼'
+  }
+
+  const ariaSort = (field: ReportSortField) => {
+    if (query.sortBy !== field) return 'none'
+    return query.sortDir === 'asc' ? 'ascending' : 'descending'
+  }
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -121,21 +300,23 @@ export default function Dashboard() {
       )}
 
       {/* Search and Actions */}
-      <div className="mb-6 flex gap-4 items-center">
+      <div className="mb-4 flex gap-4 items-center">
         <input
           type="text"
           placeholder="Search projects or clients..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
+          value={drafts.search}
+          onChange={(e) => setDrafts(prev => ({ ...prev, search: e.target.value }))}
           className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         />
-        <button
-          onClick={() => navigate('/upload')}
-          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
-        >
-          Upload Document
-        </button>
-        {selectedReports.length >= 2 && (
+        {can('documents:upload') && (
+          <button
+            onClick={() => navigate('/upload')}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+          >
+            Upload Document
+          </button>
+        )}
+        {selectedReports.length >= MIN_COMPARE_REPORTS && (
           <button
             onClick={handleCompare}
             className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors"
@@ -145,22 +326,175 @@ export default function Dashboard() {
         )}
       </div>
 
+      {selectionLimitHit && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 flex justify-between items-center">
+          <span>
+            You can compare up to {MAX_COMPARE_REPORTS} projects at once. Deselect one before adding another.
+          </span>
+          <button
+            onClick={() => setSelectionLimitHit(false)}
+            className="text-yellow-700 hover:text-yellow-900"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <select
+          aria-label="Risk level"
+          value={query.riskLevel}
+          onChange={(e) => updateQuery({ riskLevel: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+        >
+          <option value="">All risk levels</option>
+          {RISK_LEVELS.map(level => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          aria-label="Project type"
+          placeholder="Project type"
+          value={drafts.projectType}
+          onChange={(e) => setDrafts(prev => ({ ...prev, projectType: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg"
+        />
+        <input
+          type="text"
+          aria-label="Location"
+          placeholder="Location"
+          value={drafts.location}
+          onChange={(e) => setDrafts(prev => ({ ...prev, location: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg"
+        />
+        <input
+          type="text"
+          aria-label="Client"
+          placeholder="Client"
+          value={drafts.clientName}
+          onChange={(e) => setDrafts(prev => ({ ...prev, clientName: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg"
+        />
+        <div className="flex items-center gap-2">
+          <label htmlFor="risk-min" className="text-gray-500 whitespace-nowrap">Risk score</label>
+          <input
+            id="risk-min"
+            type="number"
+            min={0}
+            max={query.riskMax || 10}
+            step={0.5}
+            placeholder="Min"
+            value={query.riskMin || ''}
+            onChange={(e) => updateQuery({ riskMin: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="number"
+            aria-label="Maximum risk score"
+            min={query.riskMin || 0}
+            max={10}
+            step={0.5}
+            placeholder="Max"
+            value={query.riskMax || ''}
+            onChange={(e) => updateQuery({ riskMax: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <select
+          aria-label="Recommendation"
+          value={query.recommendation}
+          onChange={(e) => updateQuery({ recommendation: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+        >
+          <option value="">Any recommendation</option>
+          {RECOMMENDATIONS.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Deadline window"
+          value={query.deadlineWithinDays}
+          onChange={(e) => updateQuery({ deadlineWithinDays: Number(e.target.value) })}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+        >
+          <option value={0}>Any deadline</option>
+          {DEADLINE_WINDOWS.map(days => (
+            <option key={days} value={days}>Deadline in next {days} days</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <label htmlFor="date-from" className="text-gray-500 whitespace-nowrap">From</label>
+          <input
+            id="date-from"
+            type="date"
+            value={query.dateFrom}
+            max={query.dateTo || undefined}
+            onChange={(e) => updateQuery({ dateFrom: e.target.value })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="date-to" className="text-gray-500 whitespace-nowrap">To</label>
+          <input
+            id="date-to"
+            type="date"
+            value={query.dateTo}
+            min={query.dateFrom || undefined}
+            onChange={(e) => updateQuery({ dateTo: e.target.value })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+      </div>
+
       {/* Reports Table */}
       <div className="bg-white rounded-lg shadow">
         <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
           <h2 className="text-xl font-semibold text-gray-900">
             Recent Reports
           </h2>
-          {selectedReports.length > 0 && (
-            <button
-              onClick={() => setSelectedReports([])}
-              className="text-sm text-gray-600 hover:text-gray-900"
-            >
-              Clear Selection
-            </button>
-          )}
+          <div className="flex gap-4">
+            {hasActiveFilters(query) && (
+              <button
+                onClick={handleClearFilters}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Clear Filters
+              </button>
+            )}
+            {selectedReports.length > 0 && (
+              <button
+                onClick={() => {
+                  setSelectedReports([])
+                  setSelectionLimitHit(false)
+                }}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Clear Selection
+              </button>
+            )}
+          </div>
         </div>
 
+        <SavedViewTabs
+          views={views}
+          activeViewId={activeViewId}
+          canSave={!!currentViewKey && activeViewId === null}
+          onSelect={handleSelectView}
+          onSave={handleSaveView}
+          onSetDefault={handleSetDefaultView}
+          onDelete={handleDeleteView}
+          onCopyLink={handleCopyLink}
+        />
+        {views.some(isLocalView) && (
+          <p className="px-6 py-2 text-xs text-yellow-800 bg-yellow-50 border-b border-yellow-200" role="status">
+            Saved views are stored only on this device because the server can't keep them yet.
+          </p>
+        )}
+
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
@@ -168,10 +502,8 @@ export default function Dashboard() {
                 <th className="px-6 py-3 text-left">
                   <input
                     type="checkbox"
-                    checked={selectedReports.length === reports.length && reports.length > 0}
-                    onChange={(e) => {
-                      setSelectedReports(e.target.checked ? reports.map(r => r.id) : [])
-                    }}
+                    checked={allPageSelected}
+                    onChange={(e) => togglePageSelection(e.target.checked)}
                     className="rounded"
                   />
                 </th>
@@ -181,22 +513,35 @@ export default function Dashboard() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Client
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Risk Level
+                <th aria-sort={ariaSort('risk_score')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <button onClick={() => handleSort('risk_score')} className="uppercase tracking-wider hover:text-gray-900">
+                    Risk Level {sortIndicator('risk_score')}
+                  </button>
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Budget
+                <th aria-sort={ariaSort('budget_avg')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <button onClick={() => handleSort('budget_avg')} className="uppercase tracking-wider hover:text-gray-900">
+                    Budget {sortIndicator('budget_avg')}
+                  </button>
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
+                <th aria-sort={ariaSort('created_at')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <button onClick={() => handleSort('created_at')} className="uppercase tracking-wider hover:text-gray-900">
+                    Date {sortIndicator('created_at')}
+                  </button>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {filteredReports.map((report) => (
+            <tbody className={`bg-white divide-y divide-gray-200 ${loading ? 'opacity-50' : ''}`}>
+              {!loading && reports.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    {hasActiveFilters(query) ? 'No reports match these filters.' : 'No reports yet.'}
+                  </td>
+                </tr>
+              )}
+              {reports.map((report) => (
                 <tr key={report.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <input
@@ -207,8 +552,17 @@ export default function Dashboard() {
                     />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
+                    <div className="text-sm font-medium text-gray-900 flex items-center gap-2">
                       {report.project_name}
+                      {report.unread_comments > 0 && (
+                        <span
+                          className="px-2 py-0.5 bg-blue-600 text-white rounded-full text-xs font-semibold"
+                          title={`${report.unread_comments} unread comment${report.unread_comments === 1 ? '' : 's'}`}
+                          aria-label={`${report.unread_comments} unread comment${report.unread_comments === 1 ? '' : 's'}`}
+                        >
+                          💬 {report.unread_comments}
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -220,6 +574,11 @@ export default function Dashboard() {
                     <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getRiskColor(report.risk_level)}`}>
                       {report.risk_score.toFixed(1)} - {report.risk_level}
                     </span>
+                    {report.adjusted_fields.length > 0 && (
+                      <span className="ml-2">
+                        <AdjustedBadge title={`Adjusted from the AI assessment: ${report.adjusted_fields.map(fieldLabel).join(', ')}`} />
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                     {formatCurrency(report.budget_avg)}
@@ -240,6 +599,42 @@ export default function Dashboard() {
             </tbody>
           </table>
         </div>
+
+        {/* Pagination */}
+        <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap justify-between items-center gap-4 text-sm text-gray-600">
+          <div className="flex items-center gap-2">
+            <span>Rows per page</span>
+            <select
+              value={query.pageSize}
+              onChange={(e) => updateQuery({ pageSize: Number(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+            >
+              {PAGE_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-4">
+            <span>
+              {firstRow}-{lastRow} of {total}
+            </span>
+            <button
+              onClick={() => updateQuery({ page: query.page - 1 })}
+              disabled={query.page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ← Prev
+            </button>
+            <span>Page {query.page} of {totalPages}</span>
+            <button
+              onClick={() => updateQuery({ page: query.page + 1 })}
+              disabled={query.page >= totalPages}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,29 @@
+import { useNavigate } from 'react-router-dom'
+import { useSession } from '../auth/SessionProvider'
+import { ROLE_LABELS } from '../auth/roles'
+
+export default function Forbidden() {
+  const navigate = useNavigate()
+  const { user } = useSession()
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="bg-white rounded-lg shadow p-8 text-center max-w-lg mx-auto">
+        <div className="text-5xl mb-4">🔒</div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-6">
+          {user
+            ? `Your role (${ROLE_LABELS[user.role]}) doesn't have access to this page.`
+            : "You don't have access to this page."}
+          {' '}Ask an administrator if you need it.
+        </p>
+        <button
+          onClick={() => navigate('/')}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+        >
+          Back to Dashboard
+        </button>
+      </div>
+    </div>
+  )
+}
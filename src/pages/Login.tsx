@@ -1,9 +1,22 @@
 import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
-import axios from 'axios'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import api, { toApiError } from '../api/client'
+import { useSession } from '../auth/SessionProvider'
+import { RawUser, normalizeUser } from '../auth/roles'
+import { safeRedirect } from '../auth/session'
+
+interface LoginResponse {
+  access_token: string
+  token_type: string
+  user: RawUser | null
+}
 
 export default function Login() {
   const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams] = useSearchParams()
+  const { login } = useSession()
+  const sessionExpired = !!(location.state as { sessionExpired?: boolean } | null)?.sessionExpired
   const [email, setEmail] = useState('demo@ntsprint.com')
   const [password, setPassword] = useState('demo123')
   const [error, setError] = useState('')
@@ -15,17 +28,18 @@ export default function Login() {
     setError('')
 
     try {
-      const response = await axios.post('/api/auth/login', { email, password })
-      if (response.data.access_token) {
-        console.log(response.data);
-        
+      const data = await api.post<LoginResponse>('/api/auth/login', { email, password })
+      const user = normalizeUser(data.user)
+      if (data.access_token && user) {
         // Store token in localStorage
-        localStorage.setItem('auth_token', response.data.access_token)
-        localStorage.setItem('user', JSON.stringify(response.data.user))
-        navigate('/')
+        login(data.access_token, user)
+        navigate(safeRedirect(searchParams.get('redirect')), { replace: true })
+      } else {
+        setError('Sign-in failed: the server did not return your account. Please try again.')
       }
     } catch (err) {
-      setError('Invalid credentials. Please try again.')
+      const apiError = toApiError(err)
+      setError(apiError.isNetworkError ? apiError.message : 'Invalid credentials. Please try again.')
     } finally {
       setLoading(false)
     }
@@ -77,6 +91,12 @@ export default function Login() {
             />
           </div>
 
+          {sessionExpired && !error && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+              Your session has expired. Please sign in again to continue.
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
               <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
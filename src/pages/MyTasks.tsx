@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { isCancel, toApiError } from '../api/client'
+import { ReportTask, listMyTasks, updateTask } from '../api/tasks'
+import { useSession } from '../auth/SessionProvider'
+import { dateKey } from '../utils/deadlines'
+import { formatDate } from '../utils/format'
+import { isOverdue } from '../utils/tasks'
+
+const SOURCE_LABELS = { mitigation: 'Mitigation', priority: 'Priority action' }
+
+// Overdue first, then by due date; undated tasks go last
+const compareTasks = (a: ReportTask, b: ReportTask) => {
+  if (isOverdue(a) !== isOverdue(b)) return isOverdue(a) ? -1 : 1
+  return (a.due_date ? dateKey(a.due_date) : '9999').localeCompare(b.due_date ? dateKey(b.due_date) : '9999')
+}
+
+export default function MyTasks() {
+  const navigate = useNavigate()
+  const { can } = useSession()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const showCompleted = searchParams.get('completed') === '1'
+  const [tasks, setTasks] = useState<ReportTask[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadTasks(controller.signal)
+    return () => controller.abort()
+  }, [showCompleted])
+
+  const loadTasks = async (signal: AbortSignal) => {
+    setLoading(true)
+    try {
+      setTasks(await listMyTasks(showCompleted, signal))
+      setLoading(false)
+    } catch (err) {
+      if (isCancel(err)) return
+      console.error('Error loading tasks:', err)
+      setLoading(false)
+    }
+  }
+
+  const toggleCompleted = async (task: ReportTask) => {
+    setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, completed: !task.completed } : t)))
+    try {
+      const saved = await updateTask(task.id, { completed: !task.completed })
+      setTasks(prev => prev.map(t => (t.id === saved.id ? saved : t)))
+    } catch (err) {
+      console.error('Error saving task:', err)
+      // Only this task goes back; other saves may have landed meanwhile
+      setTasks(prev => prev.map(t => (t.id === task.id ? task : t)))
+      alert(`Could not save the task: ${toApiError(err).message}`)
+    }
+  }
+
+  const byReport = new Map<number, ReportTask[]>()
+  for (const task of [...tasks].sort(compareTasks)) {
+    byReport.set(task.report_id, [...(byReport.get(task.report_id) || []), task])
+  }
+  const overdueCount = tasks.filter(task => isOverdue(task)).length
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">✅ My Tasks</h1>
+          <p className="text-gray-600">
+            Mitigation and priority actions assigned to you across all reports
+            {overdueCount > 0 && <span className="text-red-600 font-semibold"> · {overdueCount} overdue</span>}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showCompleted}
+            onChange={(e) => setSearchParams(e.target.checked ? { completed: '1' } : {})}
+            className="rounded"
+          />
+          Show completed
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-24 bg-gray-200 rounded"></div>
+          <div className="h-24 bg-gray-200 rounded"></div>
+        </div>
+      ) : byReport.size === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center text-gray-500">
+          {showCompleted ? 'No tasks are assigned to you' : 'No open tasks. Nice work!'}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {[...byReport.entries()].map(([reportId, reportTasks]) => (
+            <div key={reportId} className="bg-white rounded-lg shadow">
+              <div className="px-6 py-3 border-b border-gray-200 flex justify-between items-center">
+                <h2 className="font-semibold text-gray-900">{reportTasks[0].project_name}</h2>
+                <button
+                  onClick={() => navigate(`/report/${reportId}`)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  View report →
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {reportTasks.map(task => {
+                  const overdue = isOverdue(task)
+                  return (
+                    <li key={task.id} className={`px-6 py-3 flex items-start gap-3 ${overdue ? 'bg-red-50' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={task.completed}
+                        disabled={!can('tasks:manage')}
+                        onChange={() => toggleCompleted(task)}
+                        aria-label={`Mark "${task.title}" as ${task.completed ? 'not done' : 'done'}`}
+                        className="mt-1 rounded"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className={`text-sm ${task.completed ? 'text-gray-400 line-through' : 'text-gray-700'}`}>{task.title}</div>
+                        <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-500">
+                          <span>{SOURCE_LABELS[task.source]}</span>
+                          {task.due_date && (
+                            <span className={overdue ? 'text-red-600 font-semibold' : ''}>
+                              📆 Due {formatDate(task.due_date)}
+                              {overdue && ' (overdue)'}
+                            </span>
+                          )}
+                          {task.notes && <span title={task.notes}>📝 {task.notes}</span>}
+                        </div>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { isCancel, toApiError } from '../api/client'
+import {
+  OUTCOME_STAGES,
+  PIPELINE_STAGES,
+  PipelineItem,
+  PipelineStage,
+  STAGE_LABELS,
+  StageChange,
+  StageTransition,
+  listPipeline,
+  listTransitions,
+  moveReport,
+} from '../api/pipeline'
+import { useSession } from '../auth/SessionProvider'
+import BidOutcomeModal from '../components/BidOutcomeModal'
+import { formatCurrency } from '../utils/format'
+import { summarizeOutcomes } from '../utils/pipelineOutcomes'
+
+const STAGE_COLORS: Record<PipelineStage, string> = {
+  reviewing: 'border-gray-400',
+  bidding: 'border-blue-500',
+  submitted: 'border-purple-500',
+  won: 'border-green-500',
+  lost: 'border-red-500',
+  withdrawn: 'border-gray-300',
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value)}%`)
+
+const getRiskColor = (level: string) => {
+  if (level.includes('LOW')) return 'bg-green-100 text-green-800'
+  if (level.includes('MEDIUM')) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+const getRecommendationColor = (recommendation: string) => {
+  if (recommendation === 'YES') return 'bg-green-500 text-white'
+  if (recommendation === 'NO') return 'bg-red-500 text-white'
+  return 'bg-yellow-500 text-white'
+}
+
+export default function Pipeline() {
+  const navigate = useNavigate()
+  const { can } = useSession()
+  const canManage = can('pipeline:manage')
+  const [items, setItems] = useState<PipelineItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dragOver, setDragOver] = useState<PipelineStage | null>(null)
+  const [pendingOutcome, setPendingOutcome] = useState<{ item: PipelineItem; stage: PipelineStage } | null>(null)
+  const [historyFor, setHistoryFor] = useState<number | null>(null)
+  const [history, setHistory] = useState<Record<number, StageTransition[]>>({})
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadPipeline(controller.signal)
+    return () => controller.abort()
+  }, [])
+
+  const loadPipeline = async (signal: AbortSignal) => {
+    try {
+      const data = await listPipeline(signal)
+      setItems(data.items)
+      setLoading(false)
+    } catch (err) {
+      if (isCancel(err)) return
+      console.error('Error loading pipeline:', err)
+      setLoading(false)
+    }
+  }
+
+  const requestMove = (item: PipelineItem, stage: PipelineStage) => {
+    if (item.stage === stage) return
+    if (OUTCOME_STAGES.includes(stage)) {
+      setPendingOutcome({ item, stage })
+    } else {
+      applyMove(item, { stage })
+    }
+  }
+
+  // Moves show immediately and roll back if the server refuses them
+  const applyMove = async (item: PipelineItem, change: StageChange) => {
+    setPendingOutcome(null)
+    setItems(prev => prev.map(i => (i.report_id === item.report_id ? { ...i, ...change } : i)))
+    try {
+      const updated = await moveReport(item.report_id, change)
+      setItems(prev => prev.map(i => (i.report_id === item.report_id ? updated : i)))
+      // Stale once the report has moved again
+      setHistory(prev => {
+        const next = { ...prev }
+        delete next[item.report_id]
+        return next
+      })
+      if (historyFor === item.report_id) loadHistory(item.report_id)
+    } catch (err) {
+      console.error('Error moving report:', err)
+      setItems(prev => prev.map(i => (i.report_id === item.report_id ? item : i)))
+      alert(`Could not move ${item.project_name}: ${toApiError(err).message}`)
+    }
+  }
+
+  const loadHistory = async (reportId: number) => {
+    try {
+      const transitions = await listTransitions(reportId)
+      setHistory(prev => ({ ...prev, [reportId]: transitions }))
+    } catch (err) {
+      console.error('Error loading pipeline history:', err)
+    }
+  }
+
+  const toggleHistory = (reportId: number) => {
+    if (historyFor === reportId) {
+      setHistoryFor(null)
+      return
+    }
+    setHistoryFor(reportId)
+    if (!history[reportId]) loadHistory(reportId)
+  }
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault()
+    setDragOver(null)
+    const item = items.find(i => i.report_id === Number(e.dataTransfer.getData('text/plain')))
+    if (item) requestMove(item, stage)
+  }
+
+  const outcomes = summarizeOutcomes(items)
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-96 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">🗂️ Bid Pipeline</h1>
+        <p className="text-gray-600">
+          {canManage ? 'Drag a report to another stage, or use its "Move to" menu.' : 'Track where each bid stands.'}
+        </p>
+      </div>
+
+      {/* Outcomes vs. AI */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">🎯 Outcomes vs. AI Analysis</h2>
+        {outcomes.closed === 0 ? (
+          <p className="text-sm text-gray-500">No bids have been won or lost yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-gray-600">Win rate</div>
+              <div className="text-2xl font-bold text-gray-900">{formatPercent(outcomes.win_rate)}</div>
+              <div className="text-xs text-gray-500">{outcomes.won} won · {outcomes.lost} lost</div>
+            </div>
+            <div>
+              <div className="text-gray-600">Win rate by AI recommendation</div>
+              {outcomes.by_recommendation.map(row => (
+                <div key={row.recommendation} className="flex justify-between">
+                  <span className="font-medium text-gray-900">{row.recommendation}</span>
+                  <span className="text-gray-700">{formatPercent(row.win_rate)} ({row.won}/{row.won + row.lost})</span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-gray-600">Average AI risk score</div>
+              <div className="text-gray-900">
+                Won: <strong>{outcomes.average_risk_won?.toFixed(1) ?? '—'}</strong> ·
+                Lost: <strong>{outcomes.average_risk_lost?.toFixed(1) ?? '—'}</strong>
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-600">Lost bids above the winner by</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {outcomes.average_price_gap_lost === null ? '—' : `${outcomes.average_price_gap_lost.toFixed(1)}%`}
+              </div>
+              <div className="text-xs text-gray-500">Average of submitted vs. winning price</div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Board */}
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+        {PIPELINE_STAGES.map(stage => {
+          const stageItems = items.filter(item => item.stage === stage)
+          return (
+            <section
+              key={stage}
+              aria-label={`${STAGE_LABELS[stage]} (${stageItems.length})`}
+              onDragOver={(e) => {
+                if (!canManage) return
+                e.preventDefault()
+                setDragOver(stage)
+              }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={(e) => canManage && handleDrop(e, stage)}
+              className={`bg-gray-100 rounded-lg p-3 min-h-[200px] border-t-4 ${STAGE_COLORS[stage]} ${
+                dragOver === stage ? 'ring-2 ring-blue-400' : ''
+              }`}
+            >
+              <h2 className="flex justify-between text-sm font-semibold text-gray-700 mb-3">
+                {STAGE_LABELS[stage]}
+                <span className="text-gray-500">{stageItems.length}</span>
+              </h2>
+              <div className="space-y-3">
+                {stageItems.map(item => (
+                  <article
+                    key={item.report_id}
+                    draggable={canManage}
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', String(item.report_id))}
+                    className={`bg-white rounded-lg shadow-sm p-3 text-sm ${canManage ? 'cursor-grab' : ''}`}
+                  >
+                    <button
+                      onClick={() => navigate(`/report/${item.report_id}`)}
+                      className="font-medium text-gray-900 hover:text-blue-600 text-left"
+                    >
+                      {item.project_name}
+                    </button>
+                    <div className="text-xs text-gray-500 mb-2">{item.client_name}</div>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRiskColor(item.risk_level)}`}>
+                        {item.risk_score.toFixed(1)}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRecommendationColor(item.ai_recommendation)}`}>
+                        AI: {item.ai_recommendation}
+                      </span>
+                      {item.participation_recommendation !== item.ai_recommendation && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRecommendationColor(item.participation_recommendation)}`}>
+                          Adjusted: {item.participation_recommendation}
+                        </span>
+                      )}
+                    </div>
+                    {OUTCOME_STAGES.includes(item.stage) && item.submitted_price !== null && (
+                      <div className="text-xs text-gray-600 mb-2">
+                        <div>Submitted: {formatCurrency(item.submitted_price)}</div>
+                        {item.winning_bid !== null && <div>Winning: {formatCurrency(item.winning_bid)}</div>}
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center gap-2">
+                      {canManage && (
+                        <select
+                          aria-label={`Move ${item.project_name} to`}
+                          value={item.stage}
+                          onChange={(e) => requestMove(item, e.target.value as PipelineStage)}
+                          className="text-xs px-1 py-1 border border-gray-300 rounded bg-white"
+                        >
+                          {PIPELINE_STAGES.map(option => (
+                            <option key={option} value={option}>{STAGE_LABELS[option]}</option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        onClick={() => toggleHistory(item.report_id)}
+                        aria-expanded={historyFor === item.report_id}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        History
+                      </button>
+                    </div>
+                    {historyFor === item.report_id && (
+                      <ul className="mt-2 pt-2 border-t border-gray-100 space-y-1 text-xs text-gray-600">
+                        {!history[item.report_id] && <li>Loading...</li>}
+                        {history[item.report_id]?.length === 0 && <li>No moves yet</li>}
+                        {history[item.report_id]?.map(transition => (
+                          <li key={transition.id}>
+                            <strong>{STAGE_LABELS[transition.to_stage]}</strong> by {transition.user_name}
+                            <div className="text-gray-400">{new Date(transition.created_at).toLocaleString()}</div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </article>
+                ))}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+
+      {pendingOutcome && (
+        <BidOutcomeModal
+          item={pendingOutcome.item}
+          stage={pendingOutcome.stage}
+          onConfirm={(change) => applyMove(pendingOutcome.item, change)}
+          onCancel={() => setPendingOutcome(null)}
+        />
+      )}
+    </div>
+  )
+}
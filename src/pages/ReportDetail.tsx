@@ -1,63 +1,79 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
-import axios from 'axios'
-
-interface ReportDetail {
-  id: number
-  project_name: string
-  client_name: string
-  location: string
-  project_type: string
-  budget_min: number
-  budget_max: number
-  duration_months: number
-  risk_score: number
-  risk_level: string
-  participation_recommendation: string
-  deadline_date: string
-  award_date: string
-  start_date: string
-  created_at: string
-  executive_summary: {
-    description: string
-    requirements: string[]
-    selection_method: string
-  }
-  cost_analysis: {
-    budget_breakdown: Array<{ category: string; amount: number; percentage: number }>
-    guarantees: Array<{ type: string; amount: number; percentage: number }>
-    payment_terms: { advance: number; progress: number; retention: number }
-    pricing_strategy: string
-  }
-  risk_assessment: {
-    categories: Array<{ name: string; level: string; items: string[] }>
-    red_flags: string[]
-    mitigation_actions: string[]
-  }
-  recommendations: {
-    strategic_advice: string
-    priority_actions: string[]
-  }
-}
+import { toApiError } from '../api/client'
+import {
+  CommentAnchor,
+  CommentInput,
+  CommentSection,
+  CommentThread,
+  anchorKey,
+  createCommentThread,
+  listCommentThreads,
+  markCommentsRead,
+  redFlagAnchor,
+  replyToThread,
+  riskItemAnchor,
+  sectionAnchor,
+  setThreadResolved,
+} from '../api/comments'
+import { categoryField } from '../api/overrides'
+import { EditableField, Report, getReport, updateReport } from '../api/reports'
+import { ReportTask, TaskChanges, createTask, listReportTasks, updateTask } from '../api/tasks'
+import { Colleague, colleagueName, listColleagues } from '../api/users'
+import { useSession } from '../auth/SessionProvider'
+import AdjustedBadge from '../components/AdjustedBadge'
+import AssessmentOverrides from '../components/AssessmentOverrides'
+import BudgetDonutChart from '../components/BudgetDonutChart'
+import CashFlowChart from '../components/CashFlowChart'
+import CashFlowSimulator from '../components/CashFlowSimulator'
+import CommentThreads from '../components/CommentThreads'
+import GuaranteesChart from '../components/GuaranteesChart'
+import ReportEditForm from '../components/ReportEditForm'
+import TaskChecklist from '../components/TaskChecklist'
+import { budgetSlices, cashFlowCurve, guaranteeBars } from '../utils/costCharts'
+import { formatCurrency, formatDate } from '../utils/format'
+import { downloadCalendar } from '../utils/ical'
+import { exportReportJson, exportReportXlsx, reportFileName } from '../utils/reportExport'
+import { ReportDraft, applyChanges, draftChanges, toDraft } from '../utils/reportEdits'
+import { exportReportPdf } from '../utils/reportPdf'
+import { PendingTasks, TrackedTask, taskProgress, trackTasks } from '../utils/tasks'
 
 export default function ReportDetail() {
   const { id } = useParams()
   const navigate = useNavigate()
-  const [report, setReport] = useState<ReportDetail | null>(null)
+  const { can } = useSession()
+  const [report, setReport] = useState<Report | null>(null)
   const [expandedRisks, setExpandedRisks] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState<'pdf' | 'xlsx' | null>(null)
+  const [showOverrides, setShowOverrides] = useState(false)
+  // Null unless the edit form is open
+  const [editDraft, setEditDraft] = useState<ReportDraft | null>(null)
+  const [tasks, setTasks] = useState<ReportTask[]>([])
+  // Actions whose first save is creating their task; those rows stay locked until it lands
+  const [pendingTasks, setPendingTasks] = useState<PendingTasks>({})
+  const [colleagues, setColleagues] = useState<Colleague[]>([])
+  const [threads, setThreads] = useState<CommentThread[]>([])
+  // Anchor key of the comment panel that is open, one at a time
+  const [openComments, setOpenComments] = useState<string | null>(null)
 
   useEffect(() => {
     loadReport()
+    loadTasks()
+    loadComments()
   }, [id])
 
+  useEffect(() => {
+    loadColleagues()
+  }, [])
+
   const loadReport = async () => {
     try {
-      const response = await axios.get(`/api/reports/${id}`)
-      setReport(response.data)
+      const data = await getReport(id!)
+      setReport(data)
       // Expand first risk category by default
-      if (response.data?.risk_assessment?.categories?.[0]) {
-        setExpandedRisks([response.data.risk_assessment.categories[0].name])
+      if (data?.risk_assessment?.categories?.[0]) {
+        setExpandedRisks([data.risk_assessment.categories[0].name])
       }
     } catch (err) {
       console.error('Error loading report:', err)
@@ -66,13 +82,147 @@ export default function ReportDetail() {
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount)
+  const loadTasks = async () => {
+    try {
+      setTasks(await listReportTasks(id!))
+    } catch (err) {
+      console.error('Error loading tasks:', err)
+    }
+  }
+
+  const loadColleagues = async () => {
+    try {
+      setColleagues(await listColleagues())
+    } catch (err) {
+      console.error('Error loading colleagues:', err)
+    }
+  }
+
+  const loadComments = async () => {
+    try {
+      const data = await listCommentThreads(id!)
+      setThreads(data)
+      // Unread markers stay visible for this visit; the Dashboard badge clears
+      if (data.some(thread => thread.comments.some(comment => comment.unread))) {
+        await markCommentsRead(id!)
+      }
+    } catch (err) {
+      console.error('Error loading comments:', err)
+    }
+  }
+
+  const upsertThread = (saved: CommentThread) => {
+    setThreads(prev =>
+      prev.some(thread => thread.id === saved.id)
+        ? prev.map(thread => (thread.id === saved.id ? saved : thread))
+        : [...prev, saved]
+    )
+  }
+
+  const handleCreateThread = async (anchor: CommentAnchor, input: CommentInput) => {
+    upsertThread(await createCommentThread(id!, anchor, input))
+  }
+
+  const handleReply = async (thread: CommentThread, input: CommentInput) => {
+    upsertThread(await replyToThread(thread.id, input))
+  }
+
+  const handleResolve = async (thread: CommentThread, resolved: boolean) => {
+    upsertThread(await setThreadResolved(thread.id, resolved))
+  }
+
+  const renderCommentToggle = (anchor: CommentAnchor, label: string) => {
+    const key = anchorKey(anchor)
+    const anchorThreads = threads.filter(thread => anchorKey(thread) === key)
+    const openCount = anchorThreads.filter(thread => !thread.resolved).length
+    const unread = anchorThreads.some(thread => thread.comments.some(comment => comment.unread))
+    return (
+      <button
+        onClick={() => setOpenComments(openComments === key ? null : key)}
+        aria-expanded={openComments === key}
+        aria-label={`Comments on ${label}${openCount > 0 ? `, ${openCount} open` : ''}${unread ? ', unread' : ''}`}
+        className={`flex-shrink-0 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+          openCount > 0 ? 'bg-blue-100 text-blue-800 hover:bg-blue-200' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+        }`}
+      >
+        💬{openCount > 0 && <span>{openCount}</span>}
+        {unread && <span className="w-2 h-2 bg-blue-600 rounded-full" />}
+      </button>
+    )
+  }
+
+  const renderCommentThreads = (anchor: CommentAnchor, label: string) => {
+    const key = anchorKey(anchor)
+    if (openComments !== key) return null
+    return (
+      <CommentThreads
+        anchor={anchor}
+        label={label}
+        threads={threads.filter(thread => anchorKey(thread) === key)}
+        colleagues={colleagues}
+        onCreate={handleCreateThread}
+        onReply={handleReply}
+        onResolve={handleResolve}
+      />
+    )
+  }
+
+  const renderSectionHeading = (section: CommentSection, title: string, label: string) => (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+        {renderCommentToggle(sectionAnchor(section), label)}
+      </div>
+      {renderCommentThreads(sectionAnchor(section), label)}
+    </>
+  )
+
+  // The changes as they should look on screen, including the new assignee's name
+  const withAssigneeName = (changes: TaskChanges) => {
+    if (!('assignee_id' in changes)) return changes
+    const assignee = colleagues.find(colleague => colleague.id === changes.assignee_id)
+    return { ...changes, assignee_name: assignee ? colleagueName(assignee) : null }
+  }
+
+  // Saves show immediately; a failed save rolls back only the task it touched
+  const handleTaskSave = async (tracked: TrackedTask, changes: TaskChanges) => {
+    if (!tracked.task) {
+      // A second change before the first create lands would create a duplicate task
+      if (pendingTasks[tracked.key]) return
+      setPendingTasks(prev => ({ ...prev, [tracked.key]: withAssigneeName(changes) }))
+      try {
+        const saved = await createTask(id!, {
+          source: tracked.source,
+          title: tracked.title,
+          completed: tracked.completed,
+          assignee_id: tracked.assignee_id,
+          due_date: tracked.due_date,
+          notes: tracked.notes,
+          ...changes,
+        })
+        setTasks(prev => [...prev.filter(task => task.id !== saved.id), saved])
+      } catch (err) {
+        console.error('Error saving task:', err)
+        alert(`Could not save the task: ${toApiError(err).message}`)
+      } finally {
+        setPendingTasks(prev => {
+          const { [tracked.key]: _done, ...rest } = prev
+          return rest
+        })
+      }
+      return
+    }
+
+    const original = tracked.task
+    setTasks(prev => prev.map(task => (task.id === original.id ? { ...task, ...withAssigneeName(changes) } : task)))
+    try {
+      const saved = await updateTask(original.id, changes)
+      setTasks(prev => prev.map(task => (task.id === saved.id ? saved : task)))
+    } catch (err) {
+      console.error('Error saving task:', err)
+      setTasks(prev => prev.map(task => (task.id === original.id ? original : task)))
+      alert(`Could not save the task: ${toApiError(err).message}`)
+    }
   }
 
   const getRiskColor = (level: string) => {
@@ -89,6 +239,50 @@ export default function ReportDetail() {
     return 'bg-yellow-500 text-white'
   }
 
+  // The edits show straight away; a failed save restores the report and reopens the form with the draft
+  const handleSaveEdits = async () => {
+    if (!report || !editDraft) return
+    const changes = draftChanges(report, editDraft)
+    if (Object.keys(changes).length === 0) {
+      setEditDraft(null)
+      return
+    }
+    const previous = report
+    const draft = editDraft
+    setReport(applyChanges(report, changes))
+    setEditDraft(null)
+    try {
+      setReport(await updateReport(report.id, changes))
+    } catch (err) {
+      console.error('Error saving report changes:', err)
+      setReport(previous)
+      setEditDraft(draft)
+      alert(`Could not save your changes: ${toApiError(err).message}`)
+    }
+  }
+
+  const renderEditedMark = (...fields: EditableField[]) => {
+    if (!report || !fields.some(field => report.edited_fields.includes(field))) return null
+    return (
+      <span className="ml-2 text-xs font-medium text-purple-700" title="Corrected by a person after analysis">
+        ✎ edited
+      </span>
+    )
+  }
+
+  const handleExport = async (format: 'pdf' | 'xlsx') => {
+    if (!report) return
+    setExporting(format)
+    try {
+      await (format === 'pdf' ? exportReportPdf(report) : exportReportXlsx(report))
+    } catch (err) {
+      console.error(`Error exporting ${format.toUpperCase()}:`, err)
+      alert(`Could not generate the ${format === 'pdf' ? 'PDF' : 'Excel file'}. Please try again.`)
+    } finally {
+      setExporting(null)
+    }
+  }
+
   const toggleRiskCategory = (categoryName: string) => {
     setExpandedRisks(prev =>
       prev.includes(categoryName)
@@ -124,21 +318,47 @@ export default function ReportDetail() {
     )
   }
 
+  const overrides = report.overrides
+  const adjustedCount = Object.keys(overrides).length
+  const trackedTasks = trackTasks(report, tasks, pendingTasks)
+  const progress = taskProgress([...trackedTasks.mitigation, ...trackedTasks.priority])
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
       <div className="mb-6">
-        <button
-          onClick={() => navigate('/')}
-          className="text-blue-600 hover:text-blue-800 mb-4 flex items-center gap-2"
-        >
-          ← Back to Dashboard
-        </button>
+        <div className="flex justify-between items-center mb-4">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Dashboard
+          </button>
+          <div className="flex items-center gap-4">
+            {can('reports:edit') && !editDraft && (
+              <button
+                onClick={() => setEditDraft(toDraft(report))}
+                className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+              >
+                ✏️ Edit details
+              </button>
+            )}
+            <button
+              onClick={() => navigate(`/report/${id}/history`)}
+              className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+            >
+              📑 Versions & Addenda
+            </button>
+          </div>
+        </div>
         <div className="bg-white rounded-lg shadow p-6">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
             {report.project_name}
           </h1>
-          <p className="text-lg text-gray-600 mb-4">{report.client_name}</p>
+          <p className="text-lg text-gray-600 mb-4">
+            {report.client_name}
+            {renderEditedMark('client_name')}
+          </p>
           
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
             <div>
@@ -147,17 +367,24 @@ export default function ReportDetail() {
             </div>
             <div>
               <span className="text-gray-500">Location:</span>
-              <div className="font-medium">{report.location}</div>
+              <div className="font-medium">
+                {report.location}
+                {renderEditedMark('location')}
+              </div>
             </div>
             <div>
               <span className="text-gray-500">Budget Range:</span>
               <div className="font-medium">
                 {formatCurrency(report.budget_min)} - {formatCurrency(report.budget_max)}
+                {renderEditedMark('budget_min', 'budget_max')}
               </div>
             </div>
             <div>
               <span className="text-gray-500">Duration:</span>
-              <div className="font-medium">{report.duration_months} months</div>
+              <div className="font-medium">
+                {report.duration_months} months
+                {renderEditedMark('duration_months')}
+              </div>
             </div>
           </div>
 
@@ -166,41 +393,105 @@ export default function ReportDetail() {
               <span className="text-xs font-medium">RISK SCORE</span>
               <div className="text-2xl font-bold">{report.risk_score.toFixed(1)}/10</div>
               <div className="text-xs">{report.risk_level}</div>
+              {(overrides.risk_score || overrides.risk_level) && (
+                <div className="text-xs opacity-75">
+                  AI: {Number(overrides.risk_score?.ai_value ?? report.risk_score).toFixed(1)} ·{' '}
+                  {overrides.risk_level?.ai_value ?? report.risk_level}
+                </div>
+              )}
             </div>
             <div className={`px-6 py-3 rounded-lg ${getRecommendationColor(report.participation_recommendation)}`}>
               <div className="text-xs font-medium opacity-90">RECOMMENDATION</div>
               <div className="text-lg font-bold">{report.participation_recommendation}</div>
+              {overrides.participation_recommendation && (
+                <div className="text-xs opacity-90">AI: {overrides.participation_recommendation.ai_value}</div>
+              )}
             </div>
+            {adjustedCount > 0 && <AdjustedBadge title={`${adjustedCount} value${adjustedCount === 1 ? '' : 's'} adjusted from the AI assessment`} />}
+            {/* Only bid managers (and admins) override the AI assessment; others see the AI values inline */}
+            {can('assessment:override') && (
+              <button
+                onClick={() => setShowOverrides(!showOverrides)}
+                aria-expanded={showOverrides}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Adjust assessment
+              </button>
+            )}
+            {progress.total > 0 && (
+              <div className="ml-auto min-w-[180px]">
+                <div className="text-xs font-medium text-gray-500">TASKS</div>
+                <div className="text-sm text-gray-700">
+                  {progress.done}/{progress.total} done
+                  {progress.overdue > 0 && <span className="text-red-600 font-semibold"> · {progress.overdue} overdue</span>}
+                </div>
+                <div
+                  className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+                  role="progressbar"
+                  aria-label="Task progress"
+                  aria-valuemin={0}
+                  aria-valuemax={progress.total}
+                  aria-valuenow={progress.done}
+                >
+                  <div className="h-full bg-green-500" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {editDraft && (
+        <ReportEditForm draft={editDraft} onChange={setEditDraft} onSave={handleSaveEdits} onCancel={() => setEditDraft(null)} />
+      )}
+
+      {showOverrides && can('assessment:override') && (
+        <AssessmentOverrides report={report} onSaved={setReport} />
+      )}
+
       {/* Executive Summary */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">📋 Executive Summary</h2>
+        {renderSectionHeading('executive_summary', '📋 Executive Summary', 'the executive summary')}
         <p className="text-gray-700 mb-4">{report.executive_summary.description}</p>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
-            <h3 className="font-semibold text-gray-900 mb-2">Key Dates</h3>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-semibold text-gray-900">Key Dates</h3>
+              <button
+                onClick={() => downloadCalendar([report], report.project_name, reportFileName(report, 'ics'))}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                📅 Add to calendar
+              </button>
+            </div>
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span className="text-gray-600">Proposal Deadline:</span>
-                <span className="font-medium">{new Date(report.deadline_date).toLocaleDateString()}</span>
+                <span className="font-medium">
+                  {formatDate(report.deadline_date)}
+                  {renderEditedMark('deadline_date')}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Award Date:</span>
-                <span className="font-medium">{new Date(report.award_date).toLocaleDateString()}</span>
+                <span className="font-medium">
+                  {formatDate(report.award_date)}
+                  {renderEditedMark('award_date')}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Project Start:</span>
-                <span className="font-medium">{new Date(report.start_date).toLocaleDateString()}</span>
+                <span className="font-medium">
+                  {formatDate(report.start_date)}
+                  {renderEditedMark('start_date')}
+                </span>
               </div>
             </div>
           </div>
           
           <div>
-            <h3 className="font-semibold text-gray-900 mb-2">Requirements</h3>
+            <h3 className="font-semibold text-gray-900 mb-2">Requirements{renderEditedMark('requirements')}</h3>
             <ul className="space-y-1">
               {report.executive_summary.requirements.map((req, idx) => (
                 <li key={idx} className="text-sm text-gray-700 flex items-start gap-2">
@@ -219,36 +510,20 @@ export default function ReportDetail() {
 
       {/* Cost Analysis */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">💰 Cost Analysis</h2>
+        {renderSectionHeading('cost_analysis', '💰 Cost Analysis', 'the cost analysis')}
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           <div>
             <h3 className="font-semibold text-gray-900 mb-3">Budget Breakdown</h3>
-            <div className="space-y-2">
-              {report.cost_analysis.budget_breakdown.map((item, idx) => (
-                <div key={idx} className="flex items-center gap-3">
-                  <div className="flex-1">
-                    <div className="flex justify-between mb-1">
-                      <span className="text-sm font-medium text-gray-700">{item.category}</span>
-                      <span className="text-sm text-gray-600">{item.percentage}%</span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full"
-                        style={{ width: `${item.percentage}%` }}
-                      ></div>
-                    </div>
-                  </div>
-                  <span className="text-sm font-medium text-gray-900 min-w-[100px] text-right">
-                    {formatCurrency(item.amount)}
-                  </span>
-                </div>
-              ))}
-            </div>
+            <BudgetDonutChart
+              slices={budgetSlices(report)}
+              total={report.cost_analysis.budget_breakdown.reduce((sum, item) => sum + item.amount, 0)}
+            />
           </div>
           
           <div>
-            <h3 className="font-semibold text-gray-900 mb-3">Guarantees Required</h3>
+            <h3 className="font-semibold text-gray-900 mb-3">Guarantees Required{renderEditedMark('guarantees')}</h3>
+            <GuaranteesChart bars={guaranteeBars(report)} />
             <div className="space-y-2">
               {report.cost_analysis.guarantees.map((item, idx) => (
                 <div key={idx} className="flex justify-between items-center py-2 border-b border-gray-100">
@@ -271,7 +546,7 @@ export default function ReportDetail() {
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
-            <h3 className="font-semibold text-gray-900 mb-3">Payment Terms</h3>
+            <h3 className="font-semibold text-gray-900 mb-3">Payment Terms{renderEditedMark('payment_terms')}</h3>
             <div className="flex gap-4">
               <div className="flex-1 bg-blue-50 rounded-lg p-3 text-center">
                 <div className="text-2xl font-bold text-blue-600">{report.cost_analysis.payment_terms.advance}%</div>
@@ -286,6 +561,9 @@ export default function ReportDetail() {
                 <div className="text-xs text-gray-600">Retention</div>
               </div>
             </div>
+            <div className="mt-4">
+              <CashFlowChart points={cashFlowCurve(report)} />
+            </div>
           </div>
           
           <div>
@@ -297,9 +575,12 @@ export default function ReportDetail() {
         </div>
       </div>
 
+      {/* Cash Flow Simulator */}
+      <CashFlowSimulator report={report} />
+
       {/* Risk Assessment */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">⚠️ Risk Assessment</h2>
+        {renderSectionHeading('risk_assessment', '⚠️ Risk Assessment', 'the risk assessment')}
         
         <div className="mb-6">
           <h3 className="font-semibold text-gray-900 mb-3">Risk Categories</h3>
@@ -315,6 +596,9 @@ export default function ReportDetail() {
                       {category.level}
                     </span>
                     <span className="font-medium text-gray-900">{category.name}</span>
+                    {overrides[categoryField(category.name)] && (
+                      <AdjustedBadge title={`AI level: ${overrides[categoryField(category.name)]!.ai_value}`} />
+                    )}
                   </div>
                   <span className="text-gray-400">
                     {expandedRisks.includes(category.name) ? '▼' : '▶'}
@@ -324,9 +608,13 @@ export default function ReportDetail() {
                   <div className="px-4 pb-4">
                     <ul className="space-y-2">
                       {category.items.map((item, itemIdx) => (
-                        <li key={itemIdx} className="text-sm text-gray-700 flex items-start gap-2">
-                          <span className="text-red-500 mt-0.5">•</span>
-                          <span>{item}</span>
+                        <li key={itemIdx} className="text-sm text-gray-700">
+                          <div className="flex items-start gap-2">
+                            <span className="text-red-500 mt-0.5">•</span>
+                            <span className="flex-1">{item}</span>
+                            {renderCommentToggle(riskItemAnchor(category.name, item), item)}
+                          </div>
+                          {renderCommentThreads(riskItemAnchor(category.name, item), item)}
                         </li>
                       ))}
                     </ul>
@@ -343,9 +631,13 @@ export default function ReportDetail() {
             <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4">
               <ul className="space-y-2">
                 {report.risk_assessment.red_flags.map((flag, idx) => (
-                  <li key={idx} className="text-sm text-red-800 flex items-start gap-2">
-                    <span className="text-red-600 font-bold mt-0.5">⚠️</span>
-                    <span>{flag}</span>
+                  <li key={idx} className="text-sm text-red-800">
+                    <div className="flex items-start gap-2">
+                      <span className="text-red-600 font-bold mt-0.5">⚠️</span>
+                      <span className="flex-1">{flag}</span>
+                      {renderCommentToggle(redFlagAnchor(flag), flag)}
+                    </div>
+                    {renderCommentThreads(redFlagAnchor(flag), flag)}
                   </li>
                 ))}
               </ul>
@@ -356,21 +648,20 @@ export default function ReportDetail() {
         <div>
           <h3 className="font-semibold text-gray-900 mb-3">Mitigation Actions</h3>
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-            <ul className="space-y-2">
-              {report.risk_assessment.mitigation_actions.map((action, idx) => (
-                <li key={idx} className="text-sm text-gray-700 flex items-start gap-2">
-                  <input type="checkbox" className="mt-0.5 rounded" />
-                  <span>{action}</span>
-                </li>
-              ))}
-            </ul>
+            <TaskChecklist
+              tasks={trackedTasks.mitigation}
+              colleagues={colleagues}
+              canEdit={can('tasks:manage')}
+              lockedKeys={Object.keys(pendingTasks)}
+              onSave={handleTaskSave}
+            />
           </div>
         </div>
       </div>
 
       {/* Recommendations */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">📊 Recommendations</h2>
+        {renderSectionHeading('recommendations', '📊 Recommendations', 'the recommendations')}
         
         <div className="mb-6">
           <h3 className="font-semibold text-gray-900 mb-3">Strategic Advice</h3>
@@ -381,15 +672,15 @@ export default function ReportDetail() {
 
         <div>
           <h3 className="font-semibold text-gray-900 mb-3">Priority Actions (Next 7 Days)</h3>
-          <div className="space-y-2">
-            {report.recommendations.priority_actions.map((action, idx) => (
-              <div key={idx} className="flex items-start gap-3 p-3 bg-green-50 border border-green-200 rounded-lg">
-                <span className="flex-shrink-0 w-6 h-6 bg-green-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
-                  {idx + 1}
-                </span>
-                <span className="text-sm text-gray-700">{action}</span>
-              </div>
-            ))}
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+            <TaskChecklist
+              tasks={trackedTasks.priority}
+              colleagues={colleagues}
+              canEdit={can('tasks:manage')}
+              lockedKeys={Object.keys(pendingTasks)}
+              numbered
+              onSave={handleTaskSave}
+            />
           </div>
         </div>
       </div>
@@ -397,13 +688,21 @@ export default function ReportDetail() {
       {/* Export Button */}
       <div className="flex justify-center gap-4">
         <button
-          onClick={() => alert('PDF export functionality would be implemented here')}
-          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+          onClick={() => handleExport('pdf')}
+          disabled={exporting !== null}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {exporting === 'pdf' ? 'Generating PDF...' : '📥 Export as PDF'}
+        </button>
+        <button
+          onClick={() => handleExport('xlsx')}
+          disabled={exporting !== null}
+          className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-          📥 Export as PDF
+          {exporting === 'xlsx' ? 'Generating Excel...' : '📊 Export as Excel'}
         </button>
         <button
-          onClick={() => alert('JSON export functionality would be implemented here')}
+          onClick={() => exportReportJson(report)}
           className="px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 font-medium transition-colors"
         >
           📄 Export as JSON
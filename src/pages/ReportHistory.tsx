@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { isCancel, toApiError } from '../api/client'
+import { ReportVersion, getReportVersion, listReportVersions, uploadAddendum } from '../api/versions'
+import { useSession } from '../auth/SessionProvider'
+import config from '../config'
+import { inspectPdf } from '../utils/pdfPreflight'
+import { ChangeKind, DiffSection, diffReports } from '../utils/reportDiff'
+
+const MAX_FILE_SIZE = config.maxUploadSizeMb * 1024 * 1024
+
+const CHANGE_STYLES: Record<ChangeKind, { badge: string; label: string }> = {
+  added: { badge: 'bg-green-100 text-green-800', label: 'Added' },
+  removed: { badge: 'bg-red-100 text-red-800', label: 'Removed' },
+  changed: { badge: 'bg-yellow-100 text-yellow-800', label: 'Changed' },
+}
+
+export default function ReportHistory() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const { can } = useSession()
+  const [versions, setVersions] = useState<ReportVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<DiffSection[] | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [addendum, setAddendum] = useState<File | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState(0)
+  const [uploadError, setUploadError] = useState('')
+
+  useEffect(() => {
+    loadVersions()
+  }, [id])
+
+  const loadVersions = async () => {
+    try {
+      const data = await listReportVersions(id!)
+      setVersions(data)
+      // Default to the latest change: previous completed version against the newest one
+      const completed = data.filter(v => v.status === 'completed').map(v => v.version).sort((a, b) => a - b)
+      if (completed.length >= 2) {
+        setFromVersion(completed[completed.length - 2])
+        setToVersion(completed[completed.length - 1])
+      }
+    } catch (err) {
+      console.error('Error loading report versions:', err)
+      setError(toApiError(err).message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (fromVersion === null || toVersion === null || fromVersion === toVersion) {
+      setDiff(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setDiffLoading(true)
+    Promise.all([
+      getReportVersion(id!, fromVersion, controller.signal),
+      getReportVersion(id!, toVersion, controller.signal),
+    ])
+      .then(([before, after]) => {
+        setDiff(diffReports(before, after))
+        setError('')
+      })
+      .catch(err => {
+        if (isCancel(err)) return
+        console.error('Error comparing report versions:', err)
+        setError(toApiError(err).message)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setDiffLoading(false)
+      })
+    return () => controller.abort()
+  }, [id, fromVersion, toVersion])
+
+  const handleAddendumSelect = async (file: File | undefined) => {
+    setUploadError('')
+    setAddendum(null)
+    if (!file) return
+
+    if (!file.name.toLowerCase().endsWith('.pdf')) {
+      setUploadError('Not a PDF file')
+      return
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setUploadError(`File size must be less than ${config.maxUploadSizeMb}MB`)
+      return
+    }
+    try {
+      const result = await inspectPdf(file)
+      if (result.error) {
+        setUploadError(result.error)
+        return
+      }
+      setAddendum(file)
+    } catch (err) {
+      console.error('Error checking addendum:', err)
+      setUploadError('The file could not be read')
+    }
+  }
+
+  const handleAddendumUpload = async () => {
+    if (!addendum) return
+    setUploading(true)
+    setUploadError('')
+    try {
+      const formData = new FormData()
+      formData.append('file', addendum)
+      const data = await uploadAddendum(id!, formData, {
+        onUploadProgress: (e) => {
+          if (e.total) setUploadProgress(Math.round((e.loaded / e.total) * 100))
+        },
+      })
+      // Follow the re-analysis; it links back to this report when done
+      navigate(`/documents/${data.document_id}`)
+    } catch (err) {
+      console.error('Error uploading addendum:', err)
+      setUploadError(toApiError(err).message)
+      setUploading(false)
+    }
+  }
+
+  const completedVersions = versions.filter(v => v.status === 'completed')
+  const totalChanges = diff?.reduce((sum, section) => sum + section.changes.length, 0) || 0
+
+  const versionLabel = (version: ReportVersion) => {
+    return version.source === 'original'
+      ? `v${version.version} · Original (${version.filename})`
+      : `v${version.version} · Addendum (${version.filename})`
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(`/report/${id}`)}
+        className="text-blue-600 hover:text-blue-800 mb-6 flex items-center gap-2"
+      >
+        ← Back to Report
+      </button>
+
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Version History</h1>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {can('documents:upload') && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">📎 Add Addendum</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Upload an addendum to this tender. The report is re-analyzed with it and saved as a new version.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <input
+              type="file"
+              accept=".pdf"
+              disabled={uploading}
+              onChange={(e) => handleAddendumSelect(e.target.files?.[0])}
+              className="text-sm text-gray-700"
+            />
+            <button
+              onClick={handleAddendumUpload}
+              disabled={!addendum || uploading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {uploading ? `Uploading ${uploadProgress}%...` : 'Upload & Re-analyze'}
+            </button>
+          </div>
+          {uploadError && <p className="mt-3 text-sm text-red-600">{uploadError}</p>}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {versions.map(version => (
+              <tr key={version.version}>
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">v{version.version}</td>
+                <td className="px-6 py-4 text-sm text-gray-700">
+                  {version.source === 'original' ? 'Original tender' : 'Addendum'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-700">{version.filename}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">{new Date(version.created_at).toLocaleString()}</td>
+                <td className="px-6 py-4 text-sm">
+                  {version.status === 'completed' ? (
+                    <span className="text-green-600">Analyzed</span>
+                  ) : version.status === 'failed' ? (
+                    <span className="text-red-600">Analysis failed</span>
+                  ) : (
+                    <button
+                      onClick={() => navigate(`/documents/${version.document_id}`)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Analyzing... view progress →
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">🔍 What Changed</h2>
+        {completedVersions.length < 2 ? (
+          <p className="text-sm text-gray-500">
+            There is only one analyzed version. Upload an addendum to see what it changes.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+              <label htmlFor="diff-from" className="text-gray-600">Compare</label>
+              <select
+                id="diff-from"
+                value={fromVersion ?? ''}
+                onChange={(e) => setFromVersion(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {completedVersions.map(version => (
+                  <option key={version.version} value={version.version}>{versionLabel(version)}</option>
+                ))}
+              </select>
+              <label htmlFor="diff-to" className="text-gray-600">with</label>
+              <select
+                id="diff-to"
+                value={toVersion ?? ''}
+                onChange={(e) => setToVersion(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {completedVersions.map(version => (
+                  <option key={version.version} value={version.version}>{versionLabel(version)}</option>
+                ))}
+              </select>
+            </div>
+
+            {fromVersion === toVersion ? (
+              <p className="text-sm text-gray-500">Pick two different versions to compare.</p>
+            ) : diffLoading ? (
+              <div className="animate-pulse h-32 bg-gray-100 rounded"></div>
+            ) : diff && totalChanges === 0 ? (
+              <p className="text-sm text-gray-500">No differences in dates, requirements, costs or risks.</p>
+            ) : diff && (
+              <div className="space-y-6">
+                {diff.map(section => (
+                  <div key={section.key}>
+                    <h3 className="font-semibold text-gray-900 mb-2">
+                      {section.title}
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        {section.changes.length === 0 ? 'No changes' : `${section.changes.length} change${section.changes.length === 1 ? '' : 's'}`}
+                      </span>
+                    </h3>
+                    {section.changes.length > 0 && (
+                      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                        {section.changes.map((change, idx) => (
+                          <li key={idx} className="p-3 text-sm flex items-start gap-3">
+                            <span className={`flex-shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full ${CHANGE_STYLES[change.kind].badge}`}>
+                              {CHANGE_STYLES[change.kind].label}
+                            </span>
+                            <div className="flex-1">
+                              <div className="font-medium text-gray-900">{change.label}</div>
+                              {change.kind === 'changed' ? (
+                                <div className="mt-1">
+                                  <span className="text-red-700 line-through">{change.before}</span>
+                                  <span className="mx-2 text-gray-400">→</span>
+                                  <span className="text-green-700">{change.after}</span>
+                                </div>
+                              ) : change.kind === 'added' ? (
+                                <div className="mt-1 text-green-700">{change.after}</div>
+                              ) : (
+                                <div className="mt-1 text-red-700 line-through">{change.before}</div>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
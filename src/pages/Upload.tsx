@@ -1,14 +1,141 @@
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import axios from 'axios'
+import { toApiError } from '../api/client'
+import {
+  DocumentMetadata,
+  EMPTY_METADATA,
+  analyzePackage,
+  compactMetadata,
+  createPackage,
+  uploadDocument,
+} from '../api/documents'
+import { CHUNK_SIZE, uploadInChunks } from '../api/uploads'
+import TenderMetadataFields from '../components/TenderMetadataFields'
+import config from '../config'
+import useUploadQueue, { UploadCallbacks, UploadItem } from '../hooks/useUploadQueue'
+import { PreflightResult, WARNING_MESSAGES, inspectPdf } from '../utils/pdfPreflight'
+
+const MAX_FILE_SIZE = config.maxUploadSizeMb * 1024 * 1024
+const MAX_CONCURRENT_UPLOADS = 3
+
+const checkFileBasics = (file: File): string | null => {
+  // Validate file type
+  if (!file.name.toLowerCase().endsWith('.pdf')) {
+    return 'Not a PDF file'
+  }
+
+  // Validate file size
+  if (file.size > MAX_FILE_SIZE) {
+    return `File size must be less than ${config.maxUploadSizeMb}MB`
+  }
+
+  return null
+}
 
 export default function Upload() {
   const navigate = useNavigate()
   const [dragActive, setDragActive] = useState(false)
-  const [file, setFile] = useState<File | null>(null)
-  const [uploading, setUploading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadComplete, setUploadComplete] = useState(false)
+  const [groupAsPackage, setGroupAsPackage] = useState(false)
+  const [packageName, setPackageName] = useState('')
+  const [analyzing, setAnalyzing] = useState(false)
+  const [packageError, setPackageError] = useState('')
+  const [packageMetadata, setPackageMetadata] = useState<DocumentMetadata>(EMPTY_METADATA)
+  // Keyed by File so results survive queue updates and retries
+  const [preflight, setPreflight] = useState(new Map<File, PreflightResult>())
+  const [metadata, setMetadata] = useState(new Map<File, DocumentMetadata>())
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  // Shared by concurrent uploads so the package is created only once
+  const packageRequest = useRef<Promise<number> | null>(null)
+
+  const ensurePackage = () => {
+    if (!packageRequest.current) {
+      packageRequest.current = createPackage(packageName.trim() || 'Tender package', packageMetadata)
+        .then(data => data.package_id)
+        .catch(err => {
+          packageRequest.current = null
+          throw err
+        })
+    }
+    return packageRequest.current
+  }
+
+  // Reads the file in the browser before anything is uploaded
+  const validateFile = async (file: File) => {
+    const basicError = checkFileBasics(file)
+    if (basicError) return basicError
+
+    const result = await inspectPdf(file)
+    setPreflight(prev => new Map(prev).set(file, result))
+    return result.error
+  }
+
+  const uploadFile = async (file: File, { signal, onProgress, onNotice }: UploadCallbacks) => {
+    const packageId = groupAsPackage ? await ensurePackage() : undefined
+    // Package details go with the package, not each file
+    const fileMetadata = groupAsPackage ? EMPTY_METADATA : metadata.get(file) || EMPTY_METADATA
+
+    // Large scans go up in resumable chunks so a dropped connection doesn't restart them
+    if (file.size > CHUNK_SIZE) {
+      return uploadInChunks(file, { signal, onProgress, onNotice, packageId, metadata: fileMetadata })
+    }
+
+    const formData = new FormData()
+    formData.append('file', file)
+    if (packageId !== undefined) {
+      formData.append('package_id', String(packageId))
+    }
+    for (const [field, value] of Object.entries(compactMetadata(fileMetadata))) {
+      formData.append(field, value)
+    }
+
+    const result = await uploadDocument(formData, {
+      signal,
+      onUploadProgress: (e) => {
+        if (e.total) onProgress(Math.round((e.loaded / e.total) * 100))
+      },
+    })
+    return result.document_id
+  }
+
+  const queue = useUploadQueue({
+    upload: uploadFile,
+    validate: validateFile,
+    concurrency: MAX_CONCURRENT_UPLOADS,
+  })
+
+  const validItems = queue.items.filter(item => item.status !== 'invalid' && item.status !== 'canceled')
+  const doneItems = validItems.filter(item => item.status === 'done')
+  const allSettled = validItems.length > 0 &&
+    validItems.every(item => item.status === 'done' || item.status === 'failed')
+  const allDone = validItems.length > 0 && doneItems.length === validItems.length
+  const checking = queue.items.some(item => item.status === 'checking')
+  const itemsWithWarnings = validItems.filter(item => (preflight.get(item.file)?.warnings.length || 0) > 0)
+
+  const analyzeAsPackage = async () => {
+    setAnalyzing(true)
+    setPackageError('')
+    try {
+      const result = await analyzePackage(await ensurePackage())
+      navigate(`/documents/${result.document_id}`)
+    } catch (err) {
+      console.error('Error analyzing package:', err)
+      setPackageError(toApiError(err).message)
+      setAnalyzing(false)
+    }
+  }
+
+  // Once every file of a package is in, analyze them together as one tender
+  useEffect(() => {
+    if (!queue.running || !groupAsPackage || !allDone || analyzing) return
+    analyzeAsPackage()
+  }, [queue.running, groupAsPackage, allDone])
+
+  // A single document goes straight to its analysis progress page
+  useEffect(() => {
+    if (!queue.running || groupAsPackage || !allDone || validItems.length !== 1) return
+    const timeout = setTimeout(() => navigate(`/documents/${doneItems[0].documentId}`), 1000)
+    return () => clearTimeout(timeout)
+  }, [queue.running, groupAsPackage, allDone])
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault()
@@ -24,76 +151,33 @@ export default function Upload() {
     e.preventDefault()
     e.stopPropagation()
     setDragActive(false)
-    
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0])
+
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      queue.addFiles(Array.from(e.dataTransfer.files))
     }
   }
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0])
+    if (e.target.files && e.target.files.length > 0) {
+      queue.addFiles(Array.from(e.target.files))
     }
+    // Allow picking the same file again after removing it
+    e.target.value = ''
   }
 
-  const handleFile = (selectedFile: File) => {
-    // Validate file type
-    if (!selectedFile.name.toLowerCase().endsWith('.pdf')) {
-      alert('Please select a PDF file')
-      return
+  const handleStart = () => {
+    if (itemsWithWarnings.length > 0) {
+      const names = itemsWithWarnings.map(item => item.file.name).join(', ')
+      if (!confirm(`Some files may not analyze well (${names}). Upload anyway?`)) return
     }
-    
-    // Validate file size (max 10MB)
-    if (selectedFile.size > 10 * 1024 * 1024) {
-      alert('File size must be less than 10MB')
-      return
-    }
-    
-    setFile(selectedFile)
+    queue.start()
   }
 
-  const handleUpload = async () => {
-    if (!file) return
-    
-    setUploading(true)
-    setUploadProgress(0)
-    
-    const formData = new FormData()
-    formData.append('file', file)
-    
-    try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval)
-            return prev
-          }
-          return prev + 10
-        })
-      }, 200)
-      
-      await axios.post('/api/documents/upload', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        }
-      })
-      
-      clearInterval(progressInterval)
-      setUploadProgress(100)
-      setUploadComplete(true)
-      
-      // Navigate to dashboard after 2 seconds
-      setTimeout(() => {
-        navigate('/')
-      }, 2000)
-      
-    } catch (error) {
-      console.error('Upload error:', error)
-      alert('Upload failed. Please try again.')
-      setUploading(false)
-      setUploadProgress(0)
-    }
+  const handleStartOver = () => {
+    queue.reset()
+    packageRequest.current = null
+    setPackageError('')
+    setAnalyzing(false)
   }
 
   const formatFileSize = (bytes: number) => {
@@ -104,6 +188,26 @@ export default function Upload() {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i]
   }
 
+  const getStatusLabel = (item: UploadItem) => {
+    if (item.status === 'checking') return 'Checking PDF...'
+    if (item.status === 'invalid') return item.error
+    if (item.status === 'queued') return queue.running ? 'Waiting...' : 'Ready'
+    if (item.status === 'uploading') return item.notice || `Uploading... ${item.progress}%`
+    if (item.status === 'done') return 'Uploaded'
+    if (item.status === 'failed') return `Failed: ${item.error}`
+    return 'Canceled'
+  }
+
+  const getStatusColor = (item: UploadItem) => {
+    if (item.status === 'invalid' || item.status === 'failed') return 'text-red-600'
+    if (item.status === 'done') return 'text-green-600'
+    if (item.status === 'canceled') return 'text-gray-400'
+    return 'text-gray-500'
+  }
+
+  // Files can't be added to a package once its analysis has started
+  const canAddFiles = !analyzing && !(queue.running && groupAsPackage && allDone)
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <button
@@ -114,14 +218,14 @@ export default function Upload() {
       </button>
 
       <div className="bg-white rounded-lg shadow p-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Upload Bid Document</h1>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Upload Bid Documents</h1>
         <p className="text-gray-600 mb-8">
-          Upload your PDF bid document for AI-powered analysis. The system will automatically generate comprehensive reports.
+          Upload your PDF bid documents for AI-powered analysis. Add the whole tender package at once — specs, drawings index, addenda and bid forms.
         </p>
 
-        {!file ? (
+        {canAddFiles && (
           <div
-            className={`border-2 border-dashed rounded-lg p-12 text-center ${
+            className={`border-2 border-dashed rounded-lg p-12 text-center mb-6 ${
               dragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
             }`}
             onDragEnter={handleDrag}
@@ -159,94 +263,212 @@ export default function Upload() {
                 type="file"
                 className="sr-only"
                 accept=".pdf"
+                multiple
                 onChange={handleFileSelect}
               />
             </div>
-            <p className="text-sm text-gray-500">PDF files up to 10MB</p>
+            <p className="text-sm text-gray-500">PDF files up to {config.maxUploadSizeMb}MB each</p>
           </div>
-        ) : (
-          <div>
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 mb-6">
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center gap-3 flex-1">
-                  <div className="bg-red-100 p-3 rounded-lg">
-                    <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                    </svg>
-                  </div>
-                  <div className="flex-1">
-                    <div className="font-medium text-gray-900">{file.name}</div>
-                    <div className="text-sm text-gray-500">{formatFileSize(file.size)}</div>
-                  </div>
-                </div>
-                {!uploading && (
-                  <button
-                    onClick={() => setFile(null)}
-                    className="text-gray-400 hover:text-gray-600"
-                  >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                  </button>
-                )}
-              </div>
+        )}
 
-              {uploading && (
-                <div className="mb-4">
-                  <div className="flex justify-between text-sm mb-1">
-                    <span className="text-gray-600">Uploading...</span>
-                    <span className="font-medium text-gray-900">{uploadProgress}%</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${uploadProgress}%` }}
-                    ></div>
-                  </div>
-                </div>
+        {queue.items.length > 0 && (
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-semibold text-gray-900">
+                Files ({validItems.length})
+                {queue.running && (
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {doneItems.length} of {validItems.length} uploaded
+                  </span>
+                )}
+              </h3>
+              {(!queue.running || allSettled) && !analyzing && (
+                <button
+                  onClick={handleStartOver}
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Clear All
+                </button>
               )}
+            </div>
 
-              {uploadComplete && (
-                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                  <div className="flex items-center gap-2 text-green-800">
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                    </svg>
-                    <span className="font-medium">Upload successful!</span>
+            <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {queue.items.map(item => (
+                <li key={item.id} className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-red-100 p-2 rounded-lg">
+                      <svg className="w-6 h-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                      </svg>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{item.file.name}</div>
+                      <div className="text-sm">
+                        <span className="text-gray-500">{formatFileSize(item.file.size)}</span>
+                        {!!preflight.get(item.file)?.pageCount && (
+                          <span className="text-gray-500"> · {preflight.get(item.file)!.pageCount} pages</span>
+                        )}
+                        <span className={`ml-2 ${getStatusColor(item)}`}>{getStatusLabel(item)}</span>
+                      </div>
+                      {item.status !== 'invalid' && preflight.get(item.file)?.warnings.map(warning => (
+                        <div key={warning} className="text-xs text-yellow-700 mt-1">⚠️ {WARNING_MESSAGES[warning]}</div>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3 text-sm">
+                      {preflight.get(item.file) && item.status !== 'invalid' && (
+                        <button
+                          onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                          aria-expanded={expandedId === item.id}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {expandedId === item.id ? 'Hide details' : 'Details'}
+                        </button>
+                      )}
+                      {item.status === 'done' && item.documentId !== null && !groupAsPackage && (
+                        <button
+                          onClick={() => navigate(`/documents/${item.documentId}`)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          View progress →
+                        </button>
+                      )}
+                      {(item.status === 'failed' || item.status === 'canceled') && canAddFiles && (
+                        <button
+                          onClick={() => queue.retry(item.id)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {item.file.size > CHUNK_SIZE && item.progress > 0 ? 'Resume' : 'Retry'}
+                        </button>
+                      )}
+                      {(item.status === 'uploading' || (item.status === 'queued' && queue.running)) && (
+                        <button
+                          onClick={() => queue.cancel(item.id)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                      {item.status !== 'uploading' && item.status !== 'done' && canAddFiles && (
+                        <button
+                          onClick={() => queue.remove(item.id)}
+                          aria-label={`Remove ${item.file.name}`}
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
                   </div>
-                  <p className="text-sm text-green-700 mt-2">
-                    🤖 AI analysis starting... You'll be redirected to the dashboard shortly.
-                  </p>
-                </div>
-              )}
-
-              <div className="grid grid-cols-2 gap-3 text-sm">
-                <div className="flex items-center gap-2 text-green-600">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                  <span>Valid PDF format</span>
-                </div>
-                <div className="flex items-center gap-2 text-green-600">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                  <span>Size under 10MB</span>
-                </div>
-              </div>
-            </div>
+                  {expandedId === item.id && preflight.get(item.file) && (
+                    <div className="mt-4 pl-12 space-y-4">
+                      <div className="flex gap-3 overflow-x-auto">
+                        {preflight.get(item.file)!.thumbnails.map((thumbnail, idx) => (
+                          <img
+                            key={idx}
+                            src={thumbnail}
+                            alt={`Page ${idx + 1} of ${item.file.name}`}
+                            className="w-[120px] border border-gray-200 rounded shadow-sm"
+                          />
+                        ))}
+                      </div>
+                      {!groupAsPackage && item.status !== 'done' && item.status !== 'uploading' && (
+                        <TenderMetadataFields
+                          idPrefix={item.id}
+                          value={metadata.get(item.file) || EMPTY_METADATA}
+                          onChange={(value) => setMetadata(prev => new Map(prev).set(item.file, value))}
+                        />
+                      )}
+                    </div>
+                  )}
+                  {item.status === 'uploading' && (
+                    <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+                      <div
+                        className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${item.progress}%` }}
+                      ></div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
-            {!uploading && !uploadComplete && (
-              <button
-                onClick={handleUpload}
-                className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 font-medium transition-colors"
-              >
-                Upload and Analyze
-              </button>
+        {validItems.length > 1 && !queue.running && (
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={groupAsPackage}
+                onChange={(e) => setGroupAsPackage(e.target.checked)}
+                className="mt-1 rounded"
+              />
+              <span>
+                <span className="font-medium text-gray-900">Group as one tender package</span>
+                <span className="block text-sm text-gray-600">
+                  All files are analyzed together and produce a single report.
+                </span>
+              </span>
+            </label>
+            {groupAsPackage && (
+              <>
+                <input
+                  type="text"
+                  placeholder="Package name, e.g. Rochester STEM Academy tender"
+                  value={packageName}
+                  onChange={(e) => setPackageName(e.target.value)}
+                  className="mt-3 mb-3 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <TenderMetadataFields
+                  idPrefix="package"
+                  value={packageMetadata}
+                  onChange={setPackageMetadata}
+                />
+              </>
             )}
           </div>
         )}
 
+        {analyzing && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 text-green-800">
+            🤖 All files uploaded. Starting the package analysis...
+          </div>
+        )}
+
+        {packageError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-6">
+            Could not start the package analysis: {packageError}
+            <button
+              onClick={analyzeAsPackage}
+              className="ml-2 font-medium underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {groupAsPackage && queue.running && allSettled && !allDone && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm mb-6">
+            Some files failed to upload. Retry or remove them to analyze the package.
+          </div>
+        )}
+
+        {!queue.running && validItems.length > 0 && (
+          <button
+            onClick={handleStart}
+            disabled={checking}
+            className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {checking ? 'Checking files...' : validItems.length === 1
+              ? 'Upload and Analyze'
+              : groupAsPackage
+                ? `Upload ${validItems.length} Files as One Package`
+                : `Upload and Analyze ${validItems.length} Files`}
+          </button>
+        )}
+
         <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
           <h3 className="font-semibold text-blue-900 mb-3">What happens next?</h3>
           <ol className="space-y-2 text-sm text-blue-800">
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import api, { toApiError } from '../api/client'
+import { useSession } from '../auth/SessionProvider'
+import { ROLES, ROLE_LABELS, Role, User, normalizeUser } from '../auth/roles'
+
+export default function UserManagement() {
+  const navigate = useNavigate()
+  const { user: currentUser } = useSession()
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<number | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const loadUsers = async () => {
+    try {
+      const data = await api.get<{ users: unknown[] }>('/api/users')
+      // Entries that aren't users are skipped rather than shown half-empty
+      setUsers(data.users.flatMap(u => normalizeUser(u) ?? []))
+    } catch (err) {
+      console.error('Error loading users:', err)
+      setError(toApiError(err).message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRoleChange = async (userId: number, role: Role) => {
+    setSavingId(userId)
+    setError('')
+    try {
+      const updated = normalizeUser(await api.patch<unknown>(`/api/users/${userId}`, { role }))
+      if (!updated) throw new Error('The server returned an invalid user')
+      setUsers(prev => prev.map(u => (u.id === userId ? updated : u)))
+    } catch (err) {
+      console.error('Error updating user role:', err)
+      setError(toApiError(err).message)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate('/')}
+        className="text-blue-600 hover:text-blue-800 mb-6 flex items-center gap-2"
+      >
+        ← Back to Dashboard
+      </button>
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h1 className="text-xl font-semibold text-gray-900">User Management</h1>
+          <p className="text-sm text-gray-500">Roles control which pages and actions each person can use.</p>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {user.full_name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {user.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      value={user.role}
+                      disabled={savingId === user.id || user.id === currentUser?.id}
+                      onChange={(e) => handleRoleChange(user.id, e.target.value as Role)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
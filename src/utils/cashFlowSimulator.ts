@@ -0,0 +1,92 @@
+/**
+ * Monthly cash projection and bonding check for a tender, under user-set assumptions
+ */
+import { Report } from '../api/reports'
+import { contractValue } from './costCharts'
+
+type SimulatedReport = Pick<Report, 'budget_min' | 'budget_max' | 'duration_months' | 'cost_analysis'>
+
+export interface SimulationAssumptions {
+  // Share of the contract value kept as margin; the rest is spent evenly over the duration
+  margin_pct: number
+  // Months between billing progress and getting paid
+  payment_delay_months: number
+  // Months after completion until retention is paid out
+  retention_release_months: number
+  // Bonding line still available to the company; 0 means not entered
+  bonding_capacity: number
+}
+
+export interface SimulatedMonth {
+  month: number
+  cash_in: number
+  cash_out: number
+  net: number
+  cumulative: number
+}
+
+export interface SimulationResult {
+  months: SimulatedMonth[]
+  contract_value: number
+  profit: number
+  peak_working_capital: number
+  // Month the cumulative position is lowest, or null when it never goes negative
+  peak_month: number | null
+  // First month from which the position stays at or above zero
+  break_even_month: number | null
+  retention_amount: number
+  retention_release_month: number
+  bonding_required: number
+  bonding_exceeded: boolean
+  bonding_shortfall: number
+}
+
+export const DEFAULT_ASSUMPTIONS: SimulationAssumptions = {
+  margin_pct: 10,
+  payment_delay_months: 1,
+  retention_release_months: 0,
+  bonding_capacity: 0,
+}
+
+// Advance is paid on award; progress is billed monthly and paid after the delay; retention after release
+export const simulateCashFlow = (report: SimulatedReport, assumptions: SimulationAssumptions): SimulationResult => {
+  const { advance, progress, retention } = report.cost_analysis.payment_terms
+  const value = contractValue(report)
+  const duration = Math.max(report.duration_months, 1)
+  const delay = Math.max(Math.round(assumptions.payment_delay_months), 0)
+  const retentionMonth = duration + Math.max(Math.round(assumptions.retention_release_months), 0)
+  const lastMonth = Math.max(duration + delay, retentionMonth)
+
+  const monthlyCost = (value * (1 - assumptions.margin_pct / 100)) / duration
+  const monthlyProgress = (value * progress) / 100 / duration
+  const retentionAmount = (value * retention) / 100
+
+  let cumulative = 0
+  const months = Array.from({ length: lastMonth + 1 }, (_, month): SimulatedMonth => {
+    let cashIn = month === 0 ? (value * advance) / 100 : 0
+    if (month - delay >= 1 && month - delay <= duration) cashIn += monthlyProgress
+    if (month === retentionMonth) cashIn += retentionAmount
+    const cashOut = month >= 1 && month <= duration ? monthlyCost : 0
+    cumulative += cashIn - cashOut
+    return { month, cash_in: cashIn, cash_out: cashOut, net: cashIn - cashOut, cumulative }
+  })
+
+  const lowest = months.reduce((min, month) => (month.cumulative < min.cumulative ? month : min), months[0])
+  const lastNegative = months.map(month => month.cumulative < 0).lastIndexOf(true)
+  const bondingRequired = report.cost_analysis.guarantees.reduce((sum, g) => sum + g.amount, 0)
+  const bondingExceeded = assumptions.bonding_capacity > 0 && bondingRequired > assumptions.bonding_capacity
+
+  return {
+    months,
+    contract_value: value,
+    profit: months[months.length - 1].cumulative,
+    peak_working_capital: Math.max(-lowest.cumulative, 0),
+    peak_month: lowest.cumulative < 0 ? lowest.month : null,
+    break_even_month: lastNegative === -1 ? 0 : lastNegative + 1 < months.length ? lastNegative + 1 : null,
+    retention_amount: retentionAmount,
+    retention_release_month: retentionMonth,
+    bonding_required: bondingRequired,
+    bonding_exceeded: bondingExceeded,
+    bonding_shortfall: bondingExceeded ? bondingRequired - assumptions.bonding_capacity : 0,
+  }
+}
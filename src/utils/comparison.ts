@@ -0,0 +1,63 @@
+/**
+ * Best/worst highlighting and the best opportunity for the Comparison page
+ */
+import { ComparisonReport } from '../api/reports'
+import { ScoringModel } from '../api/scoring'
+import { scoreReport } from './scoring'
+
+export type ComparableKey = 'budget_min' | 'budget_max' | 'risk_score' | 'duration_months'
+
+export type ValueFlag = 'best' | 'worst' | null
+
+export const getBestValue = (key: ComparableKey, reports: ComparisonReport[]) => {
+  if (key === 'risk_score') {
+    return Math.min(...reports.map(r => r.risk_score))
+  }
+  if (key === 'duration_months') {
+    return Math.min(...reports.map(r => r.duration_months))
+  }
+  if (key === 'budget_max') {
+    return Math.max(...reports.map(r => r.budget_max))
+  }
+  return Math.min(...reports.map(r => r.budget_min))
+}
+
+export const getWorstValue = (key: ComparableKey, reports: ComparisonReport[]) => {
+  if (key === 'risk_score') {
+    return Math.max(...reports.map(r => r.risk_score))
+  }
+  if (key === 'duration_months') {
+    return Math.max(...reports.map(r => r.duration_months))
+  }
+  if (key === 'budget_max') {
+    return Math.min(...reports.map(r => r.budget_max))
+  }
+  return Math.max(...reports.map(r => r.budget_min))
+}
+
+export const getValueFlag = (value: number, key: ComparableKey, reports: ComparisonReport[]): ValueFlag => {
+  if (value === getBestValue(key, reports)) return 'best'
+  if (value === getWorstValue(key, reports)) return 'worst'
+  return null
+}
+
+// Red flags are judged on absolute counts rather than relative to the other reports
+export const getRedFlagsFlag = (count: number): ValueFlag => {
+  if (count === 0) return 'best'
+  if (count >= 3) return 'worst'
+  return null
+}
+
+// Total of every guarantee the tender requires
+export const totalBonding = (report: ComparisonReport) => {
+  return report.cost_analysis.guarantees.reduce((sum, g) => sum + g.amount, 0)
+}
+
+// Highest bid score wins; ties go to the lower risk score
+export const findBestOpportunity = (reports: ComparisonReport[], model: ScoringModel) => {
+  if (reports.length === 0) return null
+
+  const scores = reports.map(report => ({ report, score: scoreReport(report, model).total }))
+  scores.sort((a, b) => b.score - a.score || a.report.risk_score - b.report.risk_score)
+  return scores[0].report
+}
@@ -0,0 +1,118 @@
+/**
+ * CSV and Excel export of the comparison matrix: one column per report, one row per attribute
+ */
+import { ComparisonReport } from '../api/reports'
+import { ScoringModel } from '../api/scoring'
+import { ValueFlag, findBestOpportunity, getRedFlagsFlag, getValueFlag, totalBonding } from './comparison'
+import { downloadBlob } from './download'
+import { SCORING_FACTORS, scoreReport } from './scoring'
+
+type Cell = string | number | Date | null
+
+interface MatrixRow {
+  label: string
+  values: Cell[]
+  // Excel number format for the row's values
+  format?: string
+}
+
+const CURRENCY_FORMAT = '"$"#,##0'
+const DATE_FORMAT = 'yyyy-mm-dd'
+
+const flagLabel = (flag: ValueFlag) => (flag ? flag.toUpperCase() : '')
+
+const toDate = (date: string) => (date ? new Date(date) : null)
+
+export const buildComparisonMatrix = (reports: ComparisonReport[], model: ScoringModel) => {
+  const bestOpportunity = findBestOpportunity(reports, model)
+  const scores = new Map(reports.map(report => [report.id, scoreReport(report, model)]))
+  const row = (label: string, value: (report: ComparisonReport) => Cell, format?: string): MatrixRow => ({
+    label,
+    values: reports.map(value),
+    format,
+  })
+
+  const riskCategories = Array.from(new Set(reports.flatMap(r => r.risk_assessment.categories.map(c => c.name))))
+
+  const header = ['Metric', ...reports.map(report => report.project_name)]
+  const rows: MatrixRow[] = [
+    row('Report ID', report => report.id),
+    row('Client', report => report.client_name),
+    row('Location', report => report.location),
+    row('Budget Min', report => report.budget_min, CURRENCY_FORMAT),
+    row('Budget Max', report => report.budget_max, CURRENCY_FORMAT),
+    // Same highlighting as the Budget Range row on screen
+    row('Budget Range Flag', report => flagLabel(getValueFlag(report.budget_max, 'budget_max', reports))),
+    row('Risk Score', report => report.risk_score),
+    row('Risk Score Flag', report => flagLabel(getValueFlag(report.risk_score, 'risk_score', reports))),
+    row('Risk Level', report => report.risk_level),
+    row('Duration (months)', report => report.duration_months),
+    row('Duration Flag', report => flagLabel(getValueFlag(report.duration_months, 'duration_months', reports))),
+    row('Red Flags', report => report.risk_assessment.red_flags.length),
+    row('Red Flags Flag', report => flagLabel(getRedFlagsFlag(report.risk_assessment.red_flags.length))),
+    row('Total Bonding Exposure', totalBonding, CURRENCY_FORMAT),
+    row('Advance Payment (%)', report => report.cost_analysis.payment_terms.advance),
+    row('Progress Payments (%)', report => report.cost_analysis.payment_terms.progress),
+    row('Retention (%)', report => report.cost_analysis.payment_terms.retention),
+    ...riskCategories.map(name => row(`Risk: ${name}`, report =>
+      report.risk_assessment.categories.find(category => category.name === name)?.level ?? null
+    )),
+    row('Proposal Deadline', report => toDate(report.deadline_date), DATE_FORMAT),
+    row('Recommendation', report => report.participation_recommendation),
+    row('Bid Score', report => Math.round(scores.get(report.id)!.total)),
+    // Points each factor contributed to the bid score
+    ...SCORING_FACTORS.map(({ key, label }) => row(`Score: ${label}`, report => {
+      const factor = scores.get(report.id)!.factors.find(f => f.key === key)!
+      return Math.round(factor.points * 10) / 10
+    })),
+    row('Best Opportunity', report => (report.id === bestOpportunity?.id ? 'YES' : '')),
+  ]
+  return { header, rows }
+}
+
+const fileName = (extension: string) => `bid-comparison-${new Date().toISOString().slice(0, 10)}.${extension}`
+
+// Text from the tender could start a spreadsheet formula; numbers are left alone so negatives stay numeric
+const FORMULA_START = /^[=+\-@\t\r]/
+
+const toCsvValue = (value: Cell) => {
+  if (value === null) return ''
+  if (typeof value === 'string' && FORMULA_START.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`
+  }
+  const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const exportComparisonCsv = (reports: ComparisonReport[], model: ScoringModel) => {
+  const { header, rows } = buildComparisonMatrix(reports, model)
+  const lines = [header, ...rows.map(row => [row.label, ...row.values])]
+    .map(line => line.map(toCsvValue).join(','))
+  // The byte order mark makes Excel read the file as UTF-8
+  const csv = '\ufeff' + lines.join('\r\n')
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName('csv'))
+}
+
+export const exportComparisonXlsx = async (reports: ComparisonReport[], model: ScoringModel) => {
+  // Loaded on demand; the spreadsheet library is only needed when exporting
+  const { Workbook } = await import('exceljs')
+  const { header, rows } = buildComparisonMatrix(reports, model)
+
+  const workbook = new Workbook()
+  const sheet = workbook.addWorksheet('Comparison')
+  sheet.columns = [{ width: 22 }, ...reports.map(() => ({ width: 28 }))]
+  sheet.addRows([header, ...rows.map(row => [row.label, ...row.values])])
+  rows.forEach((row, rowIdx) => {
+    if (!row.format) return
+    // Skip the header row and the label column (the sheet is 1-based)
+    row.values.forEach((_, colIdx) => {
+      sheet.getRow(rowIdx + 2).getCell(colIdx + 2).numFmt = row.format!
+    })
+  })
+
+  const data = await workbook.xlsx.writeBuffer()
+  downloadBlob(
+    new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    fileName('xlsx'),
+  )
+}
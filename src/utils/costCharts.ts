@@ -0,0 +1,86 @@
+/**
+ * Chart series for the Cost Analysis section, shared by the on-screen charts and the exports
+ */
+import { Report } from '../api/reports'
+
+type CostReport = Pick<Report, 'budget_min' | 'budget_max' | 'duration_months' | 'cost_analysis'>
+
+export interface BudgetSlice {
+  name: string
+  value: number
+  percentage: number
+  color: string
+}
+
+export interface CashFlowPoint {
+  month: number
+  // Cumulative amounts received by the end of the month
+  advance: number
+  progress: number
+  retention: number
+  total: number
+}
+
+export interface GuaranteeBar {
+  name: string
+  value: number
+  percentage: number
+}
+
+// Same palette as the Comparison budget bars, as hex so jsPDF can use it too
+export const CHART_COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#eab308',
+  '#a855f7',
+  '#ec4899',
+  '#14b8a6',
+  '#f97316',
+  '#6366f1',
+  '#6b7280',
+]
+
+export const PAYMENT_COLORS = {
+  advance: '#2563eb',
+  progress: '#16a34a',
+  retention: '#ca8a04',
+}
+
+export const GUARANTEE_COLOR = '#7c3aed'
+
+// Payment terms apply to the contract value, estimated as the middle of the budget range
+export const contractValue = (report: CostReport) => (report.budget_min + report.budget_max) / 2
+
+export const budgetSlices = (report: CostReport): BudgetSlice[] => {
+  return report.cost_analysis.budget_breakdown.map((item, idx) => ({
+    name: item.category,
+    value: item.amount,
+    percentage: item.percentage,
+    color: CHART_COLORS[idx % CHART_COLORS.length],
+  }))
+}
+
+// Advance on award, progress billed evenly over the duration, retention released on completion
+export const cashFlowCurve = (report: CostReport): CashFlowPoint[] => {
+  const { advance, progress, retention } = report.cost_analysis.payment_terms
+  const value = contractValue(report)
+  const months = Math.max(report.duration_months, 1)
+
+  return Array.from({ length: months + 1 }, (_, month) => {
+    const point = {
+      month,
+      advance: (value * advance) / 100,
+      progress: (value * progress * month) / (100 * months),
+      retention: month === months ? (value * retention) / 100 : 0,
+    }
+    return { ...point, total: point.advance + point.progress + point.retention }
+  })
+}
+
+export const guaranteeBars = (report: CostReport): GuaranteeBar[] => {
+  return report.cost_analysis.guarantees.map(item => ({
+    name: item.type,
+    value: item.amount,
+    percentage: item.percentage,
+  }))
+}
@@ -0,0 +1,31 @@
+/**
+ * Calendar-day helpers for tender dates, and the proposal deadline reminder schedule
+ */
+
+// Days before a proposal deadline that trigger a reminder, most urgent last
+export const REMINDER_DAYS = [7, 3, 1]
+
+// Report dates may carry a time; the calendar only cares about the day. A missing date gives ''
+export const dateKey = (date: string | null | undefined) => (date ? date.slice(0, 10) : '')
+
+export const toDateKey = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const addDays = (key: string, days: number) => {
+  const date = fromDateKey(key)
+  date.setDate(date.getDate() + days)
+  return toDateKey(date)
+}
+
+// The tightest reminder window a deadline `days` away has entered, or null when it's further out or already passed
+export const reminderThreshold = (days: number) => {
+  if (days < 0) return null
+  const reached = REMINDER_DAYS.filter(threshold => days <= threshold)
+  return reached.length > 0 ? reached[reached.length - 1] : null
+}
@@ -0,0 +1,33 @@
+/**
+ * Display formatting shared by pages, charts and exports
+ */
+import { dateKey, fromDateKey, toDateKey } from './deadlines'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
+}
+
+// Short form for chart axes and labels, e.g. $1.2M
+export const formatCompact = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact' }).format(amount)
+}
+
+// Report dates are calendar days; parsing them as UTC would show the day before west of Greenwich
+export const formatDate = (date: string | null | undefined) => (date ? fromDateKey(dateKey(date)).toLocaleDateString() : '—')
+
+// Whole calendar days from today, so a deadline tomorrow is 1 whatever the time; null without a date
+export const daysUntil = (date: string | null | undefined, today = toDateKey(new Date())): number | null => {
+  if (!date) return null
+  const [a, b] = [today, dateKey(date)].map(key => {
+    const [year, month, day] = key.split('-').map(Number)
+    return Date.UTC(year, month - 1, day)
+  })
+  return Math.round((b - a) / DAY_MS)
+}
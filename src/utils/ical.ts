@@ -0,0 +1,96 @@
+/**
+ * iCalendar (.ics) export of tender dates, per report or for the whole portfolio
+ */
+import { CalendarReport } from '../api/calendar'
+import config from '../config'
+import { addDays, dateKey, REMINDER_DAYS } from './deadlines'
+import { downloadBlob } from './download'
+
+type CalendarEntry = Pick<
+  CalendarReport,
+  'id' | 'project_name' | 'client_name' | 'location' | 'risk_level' | 'deadline_date' | 'award_date' | 'start_date'
+>
+
+// Commas, semicolons and backslashes are structural in iCalendar text values
+const escapeText = (text: string) => {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets must wrap, continuing with a leading space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const icsDate = (key: string) => key.replace(/-/g, '')
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const reportUrl = (id: number) => `${window.location.origin}/report/${id}`
+
+const buildEvent = (entry: CalendarEntry, kind: 'deadline' | 'award' | 'start', stamp: string, from: string): string[] => {
+  const date = { deadline: entry.deadline_date, award: entry.award_date, start: entry.start_date }[kind]
+  if (!date) return []
+  const day = dateKey(date)
+  if (from && day < from) return []
+  const title = { deadline: 'Proposal deadline', award: 'Award date', start: 'Project start' }[kind]
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:report-${entry.id}-${kind}@${window.location.hostname || 'bid-intelligence'}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(day)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDays(day, 1))}`,
+    `SUMMARY:${escapeText(`${title}: ${entry.project_name}`)}`,
+    `DESCRIPTION:${escapeText(`Client: ${entry.client_name}\nLocation: ${entry.location}\nRisk: ${entry.risk_level}\n${reportUrl(entry.id)}`)}`,
+    `URL:${reportUrl(entry.id)}`,
+    `CATEGORIES:${escapeText(entry.risk_level)}`,
+  ]
+  // Calendar apps remind on the same schedule as the in-app reminders
+  if (kind === 'deadline') {
+    for (const days of REMINDER_DAYS) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:-P${days}D`,
+        `DESCRIPTION:${escapeText(`${entry.project_name}: proposal due in ${days} day${days === 1 ? '' : 's'}`)}`,
+        'END:VALARM',
+      )
+    }
+  }
+  lines.push('END:VEVENT')
+  return lines
+}
+
+// With `from` (YYYY-MM-DD), dates before it are left out
+export const buildCalendar = (entries: CalendarEntry[], name: string, from = '') => {
+  const stamp = icsTimestamp(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${escapeText(config.appName)}//Tender Calendar//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...entries.flatMap(entry => [
+      ...buildEvent(entry, 'deadline', stamp, from),
+      ...buildEvent(entry, 'award', stamp, from),
+      ...buildEvent(entry, 'start', stamp, from),
+    ]),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export const downloadCalendar = (entries: CalendarEntry[], name: string, fileName: string, from = '') => {
+  downloadBlob(new Blob([buildCalendar(entries, name, from)], { type: 'text/calendar;charset=utf-8' }), fileName)
+}
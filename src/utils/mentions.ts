@@ -0,0 +1,67 @@
+/**
+ * @mention detection, insertion and highlighting for comment text
+ */
+import { Colleague, colleagueName } from '../api/users'
+
+export interface MentionQuery {
+  // Index of the "@" that started the mention
+  start: number
+  query: string
+}
+
+export interface MentionPart {
+  text: string
+  mention: boolean
+}
+
+const MAX_SUGGESTIONS = 5
+
+// Names contain spaces, so the query runs from the "@" to the caret; it ends at a newline or another "@"
+export const findMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = /(^|\s)@([^@\n]{0,40})$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: caret - match[2].length - 1, query: match[2] }
+}
+
+export const mentionSuggestions = (colleagues: Colleague[], query: string) => {
+  const needle = query.toLowerCase()
+  return colleagues
+    .filter(colleague => colleagueName(colleague).toLowerCase().includes(needle) || colleague.email.toLowerCase().startsWith(needle))
+    .slice(0, MAX_SUGGESTIONS)
+}
+
+export const insertMention = (text: string, mention: MentionQuery, caret: number, colleague: Colleague) => {
+  const inserted = `@${colleagueName(colleague)} `
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length,
+  }
+}
+
+// Anyone whose name still appears after editing counts as mentioned. Longer names are matched and
+// removed first, so "@Ann Lee" doesn't also mention "Ann"
+export const mentionedIds = (body: string, colleagues: Colleague[]) => {
+  let remaining = body
+  const ids: number[] = []
+  for (const colleague of [...colleagues].sort((a, b) => colleagueName(b).length - colleagueName(a).length)) {
+    const tag = `@${colleagueName(colleague)}`
+    if (remaining.includes(tag)) {
+      ids.push(colleague.id)
+      remaining = remaining.split(tag).join(' ')
+    }
+  }
+  return ids
+}
+
+export const splitMentions = (body: string, names: string[]): MentionPart[] => {
+  if (names.length === 0) return [{ text: body, mention: false }]
+  // Longest first so "@Ann Lee" wins over "@Ann"
+  const pattern = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(name => `@${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`)
+    .join('|')
+  return body
+    .split(new RegExp(`(${pattern})`))
+    .filter(text => text !== '')
+    .map(text => ({ text, mention: text.startsWith('@') && names.includes(text.slice(1)) }))
+}
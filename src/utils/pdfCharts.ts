@@ -0,0 +1,149 @@
+/**
+ * Vector versions of the Cost Analysis charts for the PDF export, drawn from the same series as the page
+ */
+import type { jsPDF } from 'jspdf'
+import { BudgetSlice, CashFlowPoint, GUARANTEE_COLOR, GuaranteeBar, PAYMENT_COLORS } from './costCharts'
+import { formatCompact } from './format'
+
+type RGB = [number, number, number]
+type Point = [number, number]
+
+const TEXT_COLOR: RGB = [17, 24, 39]
+const MUTED_COLOR: RGB = [107, 114, 128]
+const GRID_COLOR: RGB = [229, 231, 235]
+
+const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// jsPDF has no opacity without a graphics state, so fills are mixed with the white page instead
+const tint = (color: RGB, opacity: number): RGB => {
+  return color.map(channel => Math.round(channel * opacity + 255 * (1 - opacity))) as RGB
+}
+
+// doc.lines takes relative segments, so convert the absolute points
+const polygon = (doc: jsPDF, points: Point[], fill: RGB) => {
+  const [start, ...rest] = points
+  const segments = rest.map((point, idx) => {
+    const previous = idx === 0 ? start : rest[idx - 1]
+    return [point[0] - previous[0], point[1] - previous[1]]
+  })
+  doc.setFillColor(...fill)
+  doc.lines(segments, start[0], start[1], [1, 1], 'F', true)
+}
+
+const legendItem = (doc: jsPDF, x: number, y: number, color: RGB, label: string) => {
+  doc.setFillColor(...color)
+  doc.rect(x, y - 2.5, 3, 3, 'F')
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(...TEXT_COLOR)
+  doc.text(label, x + 5, y)
+  return x + 5 + doc.getTextWidth(label) + 6
+}
+
+const DONUT_SIZE = 60
+const LEGEND_ROW_HEIGHT = 6
+
+// The donut has a fixed size; a long legend makes the block taller
+export const budgetDonutHeight = (slices: BudgetSlice[]) => Math.max(DONUT_SIZE, slices.length * LEGEND_ROW_HEIGHT + 4)
+
+// Donut on the left, legend with shares on the right
+export const drawBudgetDonut = (doc: jsPDF, slices: BudgetSlice[], x: number, y: number) => {
+  const radius = DONUT_SIZE / 2 - 2
+  const cx = x + radius
+  const cy = y + radius
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0)
+
+  let angle = -Math.PI / 2
+  for (const slice of slices) {
+    if (total <= 0 || slice.value <= 0) continue
+    const sweep = (slice.value / total) * Math.PI * 2
+    // Enough points per slice that the arc looks round when printed
+    const steps = Math.max(Math.ceil(sweep / 0.05), 2)
+    const arc: Point[] = Array.from({ length: steps + 1 }, (_, step) => {
+      const a = angle + (sweep * step) / steps
+      return [cx + radius * Math.cos(a), cy + radius * Math.sin(a)]
+    })
+    polygon(doc, [[cx, cy], ...arc], hexToRgb(slice.color))
+    angle += sweep
+  }
+  doc.setFillColor(255, 255, 255)
+  doc.circle(cx, cy, radius * 0.6, 'F')
+
+  const legendX = x + radius * 2 + 10
+  slices.forEach((slice, idx) => {
+    const rowY = y + LEGEND_ROW_HEIGHT + idx * LEGEND_ROW_HEIGHT
+    legendItem(doc, legendX, rowY, hexToRgb(slice.color), slice.name)
+    doc.setTextColor(...MUTED_COLOR)
+    doc.text(`${slice.percentage}%`, legendX + 70, rowY, { align: 'right' })
+  })
+}
+
+export const CASH_FLOW_HEIGHT = 70
+
+// Stacked cumulative areas for advance, progress and retention
+export const drawCashFlow = (doc: jsPDF, points: CashFlowPoint[], x: number, y: number, width: number) => {
+  const axisWidth = 16
+  const plotX = x + axisWidth
+  const plotWidth = width - axisWidth
+  const plotHeight = CASH_FLOW_HEIGHT - 18
+  const bottom = y + plotHeight
+  const months = points[points.length - 1].month || 1
+  const max = Math.max(...points.map(point => point.total), 1)
+
+  const px = (month: number) => plotX + (month / months) * plotWidth
+  const py = (amount: number) => bottom - (amount / max) * plotHeight
+
+  doc.setDrawColor(...GRID_COLOR).setLineWidth(0.2)
+  doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(...MUTED_COLOR)
+  for (const share of [0, 0.5, 1]) {
+    doc.line(plotX, py(max * share), plotX + plotWidth, py(max * share))
+    doc.text(formatCompact(max * share), plotX - 2, py(max * share) + 1, { align: 'right' })
+  }
+  for (const month of Array.from(new Set([0, Math.round(months / 2), months]))) {
+    doc.text(String(month), px(month), bottom + 4, { align: 'center' })
+  }
+  doc.text('Month', plotX + plotWidth, bottom + 8, { align: 'right' })
+
+  const layers: Array<{ key: keyof typeof PAYMENT_COLORS; top: (point: CashFlowPoint) => number }> = [
+    { key: 'advance', top: point => point.advance },
+    { key: 'progress', top: point => point.advance + point.progress },
+    { key: 'retention', top: point => point.total },
+  ]
+  layers.forEach((layer, idx) => {
+    const base = idx === 0 ? () => 0 : layers[idx - 1].top
+    const upper = points.map((point): Point => [px(point.month), py(layer.top(point))])
+    const lower = points.map((point): Point => [px(point.month), py(base(point))]).reverse()
+    polygon(doc, [...upper, ...lower], tint(hexToRgb(PAYMENT_COLORS[layer.key]), 0.45))
+  })
+  doc.setDrawColor(...TEXT_COLOR).setLineWidth(0.4)
+  points.slice(1).forEach((point, idx) => {
+    doc.line(px(points[idx].month), py(points[idx].total), px(point.month), py(point.total))
+  })
+
+  let legendX = plotX
+  legendX = legendItem(doc, legendX, bottom + 12, hexToRgb(PAYMENT_COLORS.advance), 'Advance')
+  legendX = legendItem(doc, legendX, bottom + 12, hexToRgb(PAYMENT_COLORS.progress), 'Progress')
+  legendItem(doc, legendX, bottom + 12, hexToRgb(PAYMENT_COLORS.retention), 'Retention (on completion)')
+}
+
+export const guaranteesChartHeight = (bars: GuaranteeBar[]) => bars.length * 8 + 4
+
+// Horizontal bars labelled with the amount
+export const drawGuaranteeBars = (doc: jsPDF, bars: GuaranteeBar[], x: number, y: number, width: number) => {
+  const labelWidth = 45
+  const barAreaWidth = width - labelWidth - 20
+  const max = Math.max(...bars.map(bar => bar.value), 1)
+
+  doc.setFont('helvetica', 'normal').setFontSize(8)
+  bars.forEach((bar, idx) => {
+    const rowY = y + idx * 8
+    doc.setTextColor(...TEXT_COLOR)
+    doc.text(doc.splitTextToSize(bar.name, labelWidth - 2)[0], x, rowY + 4)
+    doc.setFillColor(...hexToRgb(GUARANTEE_COLOR))
+    const barWidth = Math.max((bar.value / max) * barAreaWidth, 0.5)
+    doc.rect(x + labelWidth, rowY, barWidth, 5.5, 'F')
+    doc.setTextColor(...MUTED_COLOR)
+    doc.text(formatCompact(bar.value), x + labelWidth + barWidth + 2, rowY + 4)
+  })
+}
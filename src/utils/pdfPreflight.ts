@@ -0,0 +1,146 @@
+/**
+ * In-browser PDF pre-flight checks run before a file is uploaded for analysis
+ */
+import type { PDFDocumentLoadingTask } from 'pdfjs-dist'
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+
+export type PreflightWarning = 'encrypted' | 'image_only'
+
+export interface PreflightResult {
+  // Set when the file can't be analyzed at all
+  error: string | null
+  warnings: PreflightWarning[]
+  pageCount: number
+  // PNG data URLs of the first pages
+  thumbnails: string[]
+}
+
+export const WARNING_MESSAGES: Record<PreflightWarning, string> = {
+  encrypted: 'Encrypted PDF: copy/extract restrictions may stop the AI from reading it.',
+  image_only: 'Looks like a scanned PDF with no text layer. It needs OCR, so the analysis may be incomplete.',
+}
+
+// The PDF spec allows the %PDF- header anywhere in the first 1024 bytes
+const HEADER_SEARCH_BYTES = 1024
+// The trailer (and its /Encrypt entry) sits at the end of the file
+const TRAILER_SEARCH_BYTES = 64 * 1024
+const THUMBNAIL_PAGES = 4
+const THUMBNAIL_WIDTH = 120
+const TEXT_SAMPLE_PAGES = 5
+// Fewer extractable characters per page than this means there's no real text layer
+const MIN_TEXT_CHARS_PER_PAGE = 30
+const INSPECT_TIMEOUT_MS = 30 * 1000
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+// latin1 keeps every byte as one char, so binary data doesn't corrupt offsets
+const toText = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes)
+
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist')
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+  return pdfjs
+}
+
+// Feeds pdf.js the byte ranges it asks for, so a large tender is never read into memory whole
+const createRangeTransport = (
+  pdfjs: Awaited<ReturnType<typeof loadPdfjs>>,
+  file: File,
+  head: Uint8Array,
+  onReadError: (err: unknown) => void
+) => {
+  const transport = new pdfjs.PDFDataRangeTransport(file.size, head)
+  transport.requestDataRange = (begin: number, end: number) => {
+    readBytes(file.slice(begin, end))
+      .then(chunk => transport.onDataRange(begin, chunk))
+      .catch(onReadError)
+  }
+  return transport
+}
+
+// Resolves with whether the document has permission restrictions
+const readPages = async (loadingTask: PDFDocumentLoadingTask, result: PreflightResult) => {
+  const pdf = await loadingTask.promise
+  result.pageCount = pdf.numPages
+  const restricted = (await pdf.getPermissions()) !== null
+
+  let textChars = 0
+  const samplePages = Math.min(pdf.numPages, TEXT_SAMPLE_PAGES)
+  const pagesToRead = Math.min(pdf.numPages, Math.max(TEXT_SAMPLE_PAGES, THUMBNAIL_PAGES))
+  for (let pageNumber = 1; pageNumber <= pagesToRead; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+
+    if (pageNumber <= samplePages) {
+      const content = await page.getTextContent()
+      textChars += content.items.reduce((sum, item) => sum + ('str' in item ? item.str.trim().length : 0), 0)
+    }
+
+    if (pageNumber <= THUMBNAIL_PAGES) {
+      const baseViewport = page.getViewport({ scale: 1 })
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / baseViewport.width })
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.ceil(viewport.width)
+      canvas.height = Math.ceil(viewport.height)
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise
+      result.thumbnails.push(canvas.toDataURL('image/png'))
+    }
+
+    page.cleanup()
+  }
+
+  if (samplePages > 0 && textChars / samplePages < MIN_TEXT_CHARS_PER_PAGE) {
+    result.warnings.push('image_only')
+  }
+  return restricted
+}
+
+export const inspectPdf = async (file: File): Promise<PreflightResult> => {
+  const result: PreflightResult = { error: null, warnings: [], pageCount: 0, thumbnails: [] }
+
+  const head = await readBytes(file.slice(0, HEADER_SEARCH_BYTES))
+  if (!toText(head).includes('%PDF-')) {
+    return { ...result, error: 'Not a valid PDF (missing %PDF header)' }
+  }
+
+  const tail = await readBytes(file.slice(Math.max(file.size - TRAILER_SEARCH_BYTES, 0)))
+  const hasEncryptEntry = toText(tail).includes('/Encrypt')
+
+  // pdf.js waits forever for a range that never arrives, and files are checked one at a time,
+  // so a failed read or a stalled document must end the inspection with an error
+  let stop: (error: string) => void = () => {}
+  const stopped = new Promise<string>(resolve => { stop = resolve })
+  const timeout = setTimeout(() => stop('Checking this PDF took too long. Please try again.'), INSPECT_TIMEOUT_MS)
+
+  const pdfjs = await loadPdfjs()
+  const loadingTask = pdfjs.getDocument({
+    range: createRangeTransport(pdfjs, file, head, (err) => {
+      console.error('Error reading PDF range:', err)
+      stop('The file could not be read. Select it again and retry.')
+    }),
+    // Only fetch what the pages we look at need
+    disableAutoFetch: true,
+    disableStream: true,
+  })
+  const reading = readPages(loadingTask, result)
+  // When stopped, destroying the task below makes the abandoned read reject; nobody waits for it
+  reading.catch(() => {})
+  try {
+    const outcome = await Promise.race([reading, stopped])
+    if (typeof outcome === 'string') {
+      return { ...result, error: outcome }
+    }
+    if (hasEncryptEntry || outcome) {
+      result.warnings.unshift('encrypted')
+    }
+    return result
+  } catch (err) {
+    if (err instanceof Error && err.name === 'PasswordException') {
+      return { ...result, error: 'Password-protected PDF. Remove the password and try again.' }
+    }
+    console.error('Error inspecting PDF:', err)
+    return { ...result, error: 'The PDF appears to be damaged and could not be read.' }
+  } finally {
+    clearTimeout(timeout)
+    loadingTask.destroy()
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * How the AI's recommendation and risk score held up against closed bids
+ */
+import { PipelineItem } from '../api/pipeline'
+
+export interface RecommendationOutcome {
+  recommendation: string
+  won: number
+  lost: number
+  // Share of closed bids won, 0-100, or null with no closed bids
+  win_rate: number | null
+}
+
+export interface OutcomeSummary {
+  closed: number
+  won: number
+  lost: number
+  win_rate: number | null
+  by_recommendation: RecommendationOutcome[]
+  average_risk_won: number | null
+  average_risk_lost: number | null
+  // How far above the winning bid lost bids were, in percent
+  average_price_gap_lost: number | null
+}
+
+const average = (values: number[]) => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+const winRate = (won: number, lost: number) => (won + lost > 0 ? (won / (won + lost)) * 100 : null)
+
+export const summarizeOutcomes = (items: PipelineItem[]): OutcomeSummary => {
+  const won = items.filter(item => item.stage === 'won')
+  const lost = items.filter(item => item.stage === 'lost')
+  const closed = [...won, ...lost]
+
+  // Human overrides are ignored here; this measures the AI's own calls
+  const recommendations = Array.from(new Set(closed.map(item => item.ai_recommendation)))
+  const byRecommendation = recommendations.map(recommendation => {
+    const wonCount = won.filter(item => item.ai_recommendation === recommendation).length
+    const lostCount = lost.filter(item => item.ai_recommendation === recommendation).length
+    return { recommendation, won: wonCount, lost: lostCount, win_rate: winRate(wonCount, lostCount) }
+  })
+
+  const priceGaps = lost
+    .filter(item => item.submitted_price && item.winning_bid)
+    .map(item => ((item.submitted_price! - item.winning_bid!) / item.winning_bid!) * 100)
+
+  return {
+    closed: closed.length,
+    won: won.length,
+    lost: lost.length,
+    win_rate: winRate(won.length, lost.length),
+    by_recommendation: byRecommendation,
+    average_risk_won: average(won.map(item => item.ai_risk_score)),
+    average_risk_lost: average(lost.map(item => item.ai_risk_score)),
+    average_price_gap_lost: average(priceGaps),
+  }
+}
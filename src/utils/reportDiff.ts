@@ -0,0 +1,127 @@
+/**
+ * Field-level differences between two versions of a report
+ */
+import { Report } from '../api/reports'
+import { formatCurrency, formatDate } from './format'
+
+export type ChangeKind = 'added' | 'removed' | 'changed'
+
+export interface FieldChange {
+  kind: ChangeKind
+  label: string
+  before: string | null
+  after: string | null
+}
+
+export type DiffSectionKey = 'key_dates' | 'requirements' | 'cost_analysis' | 'risk_assessment'
+
+export interface DiffSection {
+  key: DiffSectionKey
+  title: string
+  changes: FieldChange[]
+}
+
+const compareValue = (label: string, before: string, after: string): FieldChange[] => {
+  return before === after ? [] : [{ kind: 'changed', label, before, after }]
+}
+
+// Plain string lists (requirements, red flags...) only ever gain or lose entries
+const compareList = (label: string, before: string[], after: string[]): FieldChange[] => {
+  const normalize = (value: string) => value.trim().toLowerCase()
+  const beforeKeys = new Set(before.map(normalize))
+  const afterKeys = new Set(after.map(normalize))
+  return [
+    ...before
+      .filter(item => !afterKeys.has(normalize(item)))
+      .map((item): FieldChange => ({ kind: 'removed', label, before: item, after: null })),
+    ...after
+      .filter(item => !beforeKeys.has(normalize(item)))
+      .map((item): FieldChange => ({ kind: 'added', label, before: null, after: item })),
+  ]
+}
+
+// Matches rows by name, e.g. budget categories, so a reordered list isn't reported as a change
+const compareRows = <T>(
+  label: string,
+  before: T[],
+  after: T[],
+  keyOf: (row: T) => string,
+  describe: (row: T) => string,
+): FieldChange[] => {
+  const beforeByKey = new Map(before.map(row => [keyOf(row), row]))
+  const afterByKey = new Map(after.map(row => [keyOf(row), row]))
+  const changes: FieldChange[] = []
+
+  for (const [key, row] of beforeByKey) {
+    const next = afterByKey.get(key)
+    if (!next) {
+      changes.push({ kind: 'removed', label: `${label}: ${key}`, before: describe(row), after: null })
+    } else {
+      changes.push(...compareValue(`${label}: ${key}`, describe(row), describe(next)))
+    }
+  }
+  for (const [key, row] of afterByKey) {
+    if (!beforeByKey.has(key)) {
+      changes.push({ kind: 'added', label: `${label}: ${key}`, before: null, after: describe(row) })
+    }
+  }
+  return changes
+}
+
+const diffKeyDates = (before: Report, after: Report) => [
+  ...compareValue('Proposal deadline', formatDate(before.deadline_date), formatDate(after.deadline_date)),
+  ...compareValue('Award date', formatDate(before.award_date), formatDate(after.award_date)),
+  ...compareValue('Project start', formatDate(before.start_date), formatDate(after.start_date)),
+  ...compareValue('Duration', `${before.duration_months} months`, `${after.duration_months} months`),
+]
+
+const diffCostAnalysis = (before: Report, after: Report) => {
+  const amount = (row: { amount: number; percentage: number }) => `${formatCurrency(row.amount)} (${row.percentage}%)`
+  const beforeCost = before.cost_analysis
+  const afterCost = after.cost_analysis
+  return [
+    ...compareValue(
+      'Budget range',
+      `${formatCurrency(before.budget_min)} - ${formatCurrency(before.budget_max)}`,
+      `${formatCurrency(after.budget_min)} - ${formatCurrency(after.budget_max)}`,
+    ),
+    ...compareRows('Budget', beforeCost.budget_breakdown, afterCost.budget_breakdown, row => row.category, amount),
+    ...compareRows('Guarantee', beforeCost.guarantees, afterCost.guarantees, row => row.type, amount),
+    ...compareValue('Advance payment', `${beforeCost.payment_terms.advance}%`, `${afterCost.payment_terms.advance}%`),
+    ...compareValue('Progress payments', `${beforeCost.payment_terms.progress}%`, `${afterCost.payment_terms.progress}%`),
+    ...compareValue('Retention', `${beforeCost.payment_terms.retention}%`, `${afterCost.payment_terms.retention}%`),
+    ...compareValue('Pricing strategy', beforeCost.pricing_strategy, afterCost.pricing_strategy),
+  ]
+}
+
+const diffRiskAssessment = (before: Report, after: Report) => {
+  const beforeRisk = before.risk_assessment
+  const afterRisk = after.risk_assessment
+  const afterCategories = new Map(afterRisk.categories.map(category => [category.name, category]))
+  return [
+    ...compareValue(
+      'Risk score',
+      `${before.risk_score.toFixed(1)}/10 (${before.risk_level})`,
+      `${after.risk_score.toFixed(1)}/10 (${after.risk_level})`,
+    ),
+    ...compareRows('Category', beforeRisk.categories, afterRisk.categories, category => category.name, category => category.level),
+    // Items within categories present in both versions
+    ...beforeRisk.categories.flatMap(category => {
+      const next = afterCategories.get(category.name)
+      return next ? compareList(`${category.name} risk`, category.items, next.items) : []
+    }),
+    ...compareList('Red flag', beforeRisk.red_flags, afterRisk.red_flags),
+    ...compareList('Mitigation action', beforeRisk.mitigation_actions, afterRisk.mitigation_actions),
+  ]
+}
+
+export const diffReports = (before: Report, after: Report): DiffSection[] => [
+  { key: 'key_dates', title: 'Key Dates', changes: diffKeyDates(before, after) },
+  {
+    key: 'requirements',
+    title: 'Requirements',
+    changes: compareList('Requirement', before.executive_summary.requirements, after.executive_summary.requirements),
+  },
+  { key: 'cost_analysis', title: 'Cost Analysis', changes: diffCostAnalysis(before, after) },
+  { key: 'risk_assessment', title: 'Risk Assessment', changes: diffRiskAssessment(before, after) },
+]
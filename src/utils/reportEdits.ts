@@ -0,0 +1,166 @@
+/**
+ * Corrections to a report's extracted facts: the edit form draft, its validation and the changes to save
+ */
+import { EditableField, Report, ReportChanges } from '../api/reports'
+import { dateKey } from './deadlines'
+
+export interface GuaranteeDraft {
+  type: string
+  amount: string
+  percentage: string
+}
+
+// Form inputs hold strings; dates are YYYY-MM-DD
+export interface ReportDraft {
+  client_name: string
+  location: string
+  budget_min: string
+  budget_max: string
+  duration_months: string
+  deadline_date: string
+  award_date: string
+  start_date: string
+  requirements: string[]
+  guarantees: GuaranteeDraft[]
+  payment_terms: { advance: string; progress: string; retention: string }
+}
+
+// Keyed by field, or `guarantees.<index>.<key>` for a guarantee row
+export type DraftErrors = Record<string, string>
+
+const PERCENT_TOLERANCE = 0.01
+
+export const toDraft = (report: Report): ReportDraft => ({
+  client_name: report.client_name,
+  location: report.location,
+  budget_min: String(report.budget_min),
+  budget_max: String(report.budget_max),
+  duration_months: String(report.duration_months),
+  deadline_date: dateKey(report.deadline_date),
+  award_date: dateKey(report.award_date),
+  start_date: dateKey(report.start_date),
+  requirements: [...report.executive_summary.requirements],
+  guarantees: report.cost_analysis.guarantees.map(item => ({
+    type: item.type,
+    amount: String(item.amount),
+    percentage: String(item.percentage),
+  })),
+  payment_terms: {
+    advance: String(report.cost_analysis.payment_terms.advance),
+    progress: String(report.cost_analysis.payment_terms.progress),
+    retention: String(report.cost_analysis.payment_terms.retention),
+  },
+})
+
+// Empty strings are not numbers, even though Number('') is 0
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value))
+
+const isPercent = (value: number) => Number.isFinite(value) && value >= 0 && value <= 100
+
+export const validateDraft = (draft: ReportDraft): DraftErrors => {
+  const errors: DraftErrors = {}
+  if (!draft.client_name.trim()) errors.client_name = 'Client is required'
+  if (!draft.location.trim()) errors.location = 'Location is required'
+
+  const budgetMin = toNumber(draft.budget_min)
+  const budgetMax = toNumber(draft.budget_max)
+  if (!Number.isFinite(budgetMin) || budgetMin < 0) errors.budget_min = 'Enter an amount of 0 or more'
+  if (!Number.isFinite(budgetMax) || budgetMax < 0) errors.budget_max = 'Enter an amount of 0 or more'
+  if (!errors.budget_min && !errors.budget_max && budgetMin > budgetMax) {
+    errors.budget_max = 'Maximum budget must be at least the minimum'
+  }
+
+  const duration = toNumber(draft.duration_months)
+  if (!Number.isInteger(duration) || duration < 1) errors.duration_months = 'Enter a whole number of months'
+
+  // Date inputs give YYYY-MM-DD, which compares correctly as text
+  if (!draft.deadline_date) errors.deadline_date = 'Deadline is required'
+  if (!draft.award_date) errors.award_date = 'Award date is required'
+  if (!draft.start_date) errors.start_date = 'Start date is required'
+  if (!errors.deadline_date && !errors.award_date && draft.award_date <= draft.deadline_date) {
+    errors.award_date = 'Award date must be after the proposal deadline'
+  }
+  if (!errors.award_date && !errors.start_date && draft.start_date <= draft.award_date) {
+    errors.start_date = 'Project start must be after the award date'
+  }
+
+  draft.guarantees.forEach((item, idx) => {
+    if (!item.type.trim()) errors[`guarantees.${idx}.type`] = 'Type is required'
+    const amount = toNumber(item.amount)
+    if (!Number.isFinite(amount) || amount < 0) errors[`guarantees.${idx}.amount`] = 'Enter an amount of 0 or more'
+    if (!isPercent(toNumber(item.percentage))) errors[`guarantees.${idx}.percentage`] = 'Enter 0–100'
+  })
+
+  const terms = [draft.payment_terms.advance, draft.payment_terms.progress, draft.payment_terms.retention].map(toNumber)
+  if (!terms.every(isPercent)) {
+    errors.payment_terms = 'Each payment term must be between 0 and 100%'
+  } else if (Math.abs(terms.reduce((sum, value) => sum + value, 0) - 100) > PERCENT_TOLERANCE) {
+    errors.payment_terms = `Payment terms must add up to 100% (now ${terms.reduce((sum, value) => sum + value, 0)}%)`
+  }
+  return errors
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+// Only fields that differ from the report are sent; call on a draft that passed validation
+export const draftChanges = (report: Report, draft: ReportDraft): ReportChanges => {
+  const next: Required<ReportChanges> = {
+    client_name: draft.client_name.trim(),
+    location: draft.location.trim(),
+    budget_min: Number(draft.budget_min),
+    budget_max: Number(draft.budget_max),
+    duration_months: Number(draft.duration_months),
+    deadline_date: draft.deadline_date,
+    award_date: draft.award_date,
+    start_date: draft.start_date,
+    // Blank rows are treated as removed
+    requirements: draft.requirements.map(req => req.trim()).filter(Boolean),
+    guarantees: draft.guarantees.map(item => ({
+      type: item.type.trim(),
+      amount: Number(item.amount),
+      percentage: Number(item.percentage),
+    })),
+    payment_terms: {
+      advance: Number(draft.payment_terms.advance),
+      progress: Number(draft.payment_terms.progress),
+      retention: Number(draft.payment_terms.retention),
+    },
+  }
+  const current: Required<ReportChanges> = {
+    client_name: report.client_name,
+    location: report.location,
+    budget_min: report.budget_min,
+    budget_max: report.budget_max,
+    duration_months: report.duration_months,
+    deadline_date: dateKey(report.deadline_date),
+    award_date: dateKey(report.award_date),
+    start_date: dateKey(report.start_date),
+    requirements: report.executive_summary.requirements,
+    guarantees: report.cost_analysis.guarantees,
+    payment_terms: report.cost_analysis.payment_terms,
+  }
+  const changes: ReportChanges = {}
+  for (const field of Object.keys(next) as EditableField[]) {
+    if (!sameJson(next[field], current[field])) {
+      Object.assign(changes, { [field]: next[field] })
+    }
+  }
+  return changes
+}
+
+// What the report will look like once the server accepts the changes, for optimistic display.
+// Dates stay bare YYYY-MM-DD, so they must be shown as local days (fromDateKey), not parsed as UTC
+export const applyChanges = (report: Report, changes: ReportChanges): Report => {
+  const { requirements, guarantees, payment_terms, ...facts } = changes
+  return {
+    ...report,
+    ...facts,
+    executive_summary: { ...report.executive_summary, requirements: requirements ?? report.executive_summary.requirements },
+    cost_analysis: {
+      ...report.cost_analysis,
+      guarantees: guarantees ?? report.cost_analysis.guarantees,
+      payment_terms: payment_terms ?? report.cost_analysis.payment_terms,
+    },
+    edited_fields: Array.from(new Set([...report.edited_fields, ...(Object.keys(changes) as EditableField[])])),
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Data exports of a report: versioned JSON and a multi-sheet Excel workbook
+ */
+import { Report } from '../api/reports'
+import config from '../config'
+import { cashFlowCurve } from './costCharts'
+import { downloadBlob } from './download'
+
+export const REPORT_SCHEMA = 'bid-intelligence/report'
+// Bump whenever the exported Report shape changes, so consumers can tell versions apart.
+// 2: `overrides`, the AI originals of human-adjusted assessment values
+// 3: `edited_fields`, the extracted facts a person corrected
+export const REPORT_SCHEMA_VERSION = 3
+
+export interface ReportExport {
+  schema: typeof REPORT_SCHEMA
+  schema_version: number
+  exported_at: string
+  generator: string
+  report: Report
+}
+
+const CURRENCY_FORMAT = '"$"#,##0'
+const DATE_FORMAT = 'yyyy-mm-dd'
+
+export const reportFileName = (report: Pick<Report, 'id' | 'project_name'>, extension: string) => {
+  const slug = report.project_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || `report-${report.id}`}.${extension}`
+}
+
+export const buildReportExport = (report: Report): ReportExport => ({
+  schema: REPORT_SCHEMA,
+  schema_version: REPORT_SCHEMA_VERSION,
+  exported_at: new Date().toISOString(),
+  generator: `${config.appName} ${config.appVersion}`,
+  report,
+})
+
+export const exportReportJson = (report: Report) => {
+  const json = JSON.stringify(buildReportExport(report), null, 2)
+  downloadBlob(new Blob([json], { type: 'application/json' }), reportFileName(report, 'json'))
+}
+
+// Dates go in as real dates so spreadsheets can sort and calculate with them
+const toDate = (date: string) => (date ? new Date(date) : null)
+
+type Row = Array<string | number | Date | null>
+
+const BAR_WIDTH = 30
+
+// The spreadsheet library can't write native charts, so chart columns draw in-cell bars instead
+const textBar = (value: number, max: number) => (max > 0 ? '█'.repeat(Math.round((value / max) * BAR_WIDTH)) : '')
+
+export const exportReportXlsx = async (report: Report) => {
+  // Loaded on demand; the spreadsheet library is only needed when exporting
+  const { Workbook } = await import('exceljs')
+  const workbook = new Workbook()
+  const cost = report.cost_analysis
+  const risk = report.risk_assessment
+
+  const addSheet = (name: string, rows: Row[], widths: number[], formats: Record<number, string> = {}) => {
+    const sheet = workbook.addWorksheet(name)
+    sheet.columns = widths.map(width => ({ width }))
+    sheet.addRows(rows)
+    // Number formats per column, skipping the header row; columns are 0-based here, 1-based in the sheet
+    for (const [column, format] of Object.entries(formats)) {
+      for (let row = 1; row < rows.length; row++) {
+        const cell = sheet.getRow(row + 1).getCell(Number(column) + 1)
+        if (typeof cell.value === 'number' || cell.value instanceof Date) cell.numFmt = format
+      }
+    }
+    return sheet
+  }
+
+  // Summary mixes value types, so each row carries its own number format
+  const summary: Array<[string, Row[number], string?]> = [
+    ['Project', report.project_name],
+    ['Client', report.client_name],
+    ['Project Type', report.project_type],
+    ['Location', report.location],
+    ['Budget Min', report.budget_min, CURRENCY_FORMAT],
+    ['Budget Max', report.budget_max, CURRENCY_FORMAT],
+    ['Duration (months)', report.duration_months],
+    ['Risk Score', report.risk_score],
+    ['Risk Level', report.risk_level],
+    ['Recommendation', report.participation_recommendation],
+    ['Proposal Deadline', toDate(report.deadline_date), DATE_FORMAT],
+    ['Award Date', toDate(report.award_date), DATE_FORMAT],
+    ['Project Start', toDate(report.start_date), DATE_FORMAT],
+    ['Selection Method', report.executive_summary.selection_method],
+    ['Description', report.executive_summary.description],
+    ['Pricing Strategy', cost.pricing_strategy],
+    ['Strategic Advice', report.recommendations.strategic_advice],
+    ['Report ID', report.id],
+    ['Exported At', new Date(), 'yyyy-mm-dd hh:mm'],
+  ]
+  const summarySheet = addSheet('Summary', [['Field', 'Value'], ...summary.map(([label, value]): Row => [label, value])], [22, 80])
+  summary.forEach(([, , format], idx) => {
+    if (format) summarySheet.getCell(`B${idx + 2}`).numFmt = format
+  })
+
+  addSheet('Requirements', [
+    ['#', 'Requirement'],
+    ...report.executive_summary.requirements.map((requirement, idx): Row => [idx + 1, requirement]),
+  ], [5, 100])
+
+  const maxBudgetItem = Math.max(...cost.budget_breakdown.map(item => item.amount))
+  addSheet('Budget Breakdown', [
+    ['Category', 'Amount', 'Share (%)', 'Chart'],
+    ...cost.budget_breakdown.map((item): Row => [item.category, item.amount, item.percentage, textBar(item.amount, maxBudgetItem)]),
+    ['Total', cost.budget_breakdown.reduce((sum, item) => sum + item.amount, 0), cost.budget_breakdown.reduce((sum, item) => sum + item.percentage, 0), null],
+  ], [32, 16, 12, BAR_WIDTH + 2], { 1: CURRENCY_FORMAT })
+
+  const maxGuarantee = Math.max(...cost.guarantees.map(item => item.amount))
+  addSheet('Guarantees', [
+    ['Guarantee', 'Amount', 'Share (%)', 'Chart'],
+    ...cost.guarantees.map((item): Row => [item.type, item.amount, item.percentage, textBar(item.amount, maxGuarantee)]),
+    ['Total', cost.guarantees.reduce((sum, item) => sum + item.amount, 0), null, null],
+  ], [32, 16, 12, BAR_WIDTH + 2], { 1: CURRENCY_FORMAT })
+
+  addSheet('Payment Terms', [
+    ['Term', 'Share (%)'],
+    ['Advance', cost.payment_terms.advance],
+    ['Progress', cost.payment_terms.progress],
+    ['Retention', cost.payment_terms.retention],
+  ], [16, 12])
+
+  const cashFlow = cashFlowCurve(report)
+  const maxCashFlow = cashFlow[cashFlow.length - 1].total
+  addSheet('Cash Flow', [
+    ['Month', 'Advance (cumulative)', 'Progress (cumulative)', 'Retention (cumulative)', 'Total Received', 'Chart'],
+    ...cashFlow.map((point): Row => [point.month, point.advance, point.progress, point.retention, point.total, textBar(point.total, maxCashFlow)]),
+  ], [8, 20, 20, 20, 16, BAR_WIDTH + 2], { 1: CURRENCY_FORMAT, 2: CURRENCY_FORMAT, 3: CURRENCY_FORMAT, 4: CURRENCY_FORMAT })
+
+  // One row per risk so the sheet can be filtered by category or level
+  addSheet('Risk Categories', [
+    ['Category', 'Level', 'Risk'],
+    ...risk.categories.flatMap(category =>
+      category.items.length > 0
+        ? category.items.map((item): Row => [category.name, category.level, item])
+        : [[category.name, category.level, null] as Row]
+    ),
+  ], [24, 14, 90])
+
+  addSheet('Red Flags', [
+    ['#', 'Red Flag'],
+    ...risk.red_flags.map((flag, idx): Row => [idx + 1, flag]),
+  ], [5, 100])
+
+  addSheet('Actions', [
+    ['Type', '#', 'Action'],
+    ...risk.mitigation_actions.map((action, idx): Row => ['Mitigation', idx + 1, action]),
+    ...report.recommendations.priority_actions.map((action, idx): Row => ['Priority (next 7 days)', idx + 1, action]),
+  ], [22, 5, 90])
+
+  const data = await workbook.xlsx.writeBuffer()
+  downloadBlob(
+    new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    reportFileName(report, 'xlsx'),
+  )
+}
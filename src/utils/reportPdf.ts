@@ -0,0 +1,323 @@
+/**
+ * Print-quality PDF export of a full report, generated in the browser
+ */
+import type { jsPDF } from 'jspdf'
+import type { CellInput, RowInput } from 'jspdf-autotable'
+import { Report } from '../api/reports'
+import config from '../config'
+import { budgetSlices, cashFlowCurve, guaranteeBars } from './costCharts'
+import { formatCurrency, formatDate } from './format'
+import {
+  CASH_FLOW_HEIGHT,
+  budgetDonutHeight,
+  drawBudgetDonut,
+  drawCashFlow,
+  drawGuaranteeBars,
+  guaranteesChartHeight,
+} from './pdfCharts'
+import { reportFileName } from './reportExport'
+
+type RGB = [number, number, number]
+
+// jspdf-autotable records where the last table ended on the document
+type PdfDocument = jsPDF & { lastAutoTable?: { finalY: number } }
+
+const MARGIN = 15
+const FOOTER_HEIGHT = 12
+const BRAND_COLOR: RGB = [37, 99, 235]
+const TEXT_COLOR: RGB = [17, 24, 39]
+const MUTED_COLOR: RGB = [107, 114, 128]
+
+// Same scale as the badges in ReportDetail
+const getRiskColor = (level: string): RGB => {
+  const levelUpper = level.toUpperCase()
+  if (levelUpper.includes('LOW')) return [22, 163, 74]
+  if (levelUpper.includes('MEDIUM')) return [202, 138, 4]
+  if (levelUpper.includes('HIGH') || levelUpper.includes('VERY')) return [220, 38, 38]
+  return [75, 85, 99]
+}
+
+const getRecommendationColor = (recommendation: string): RGB => {
+  if (recommendation === 'YES') return [34, 197, 94]
+  if (recommendation === 'NO') return [239, 68, 68]
+  return [234, 179, 8]
+}
+
+class PdfWriter {
+  y = MARGIN
+
+  constructor(
+    readonly doc: PdfDocument,
+    readonly autoTable: (doc: jsPDF, options: object) => void,
+  ) {}
+
+  get pageWidth() {
+    return this.doc.internal.pageSize.getWidth()
+  }
+
+  get pageHeight() {
+    return this.doc.internal.pageSize.getHeight()
+  }
+
+  get contentWidth() {
+    return this.pageWidth - MARGIN * 2
+  }
+
+  // Starts a new page when the next block wouldn't fit above the footer
+  ensureSpace(height: number) {
+    if (this.y + height > this.pageHeight - MARGIN - FOOTER_HEIGHT) {
+      this.doc.addPage()
+      this.y = MARGIN
+    }
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(20)
+    this.y += 4
+    this.doc.setFont('helvetica', 'bold').setFontSize(15).setTextColor(...BRAND_COLOR)
+    this.doc.text(title, MARGIN, this.y)
+    this.y += 2
+    this.doc.setDrawColor(...BRAND_COLOR).setLineWidth(0.5)
+    this.doc.line(MARGIN, this.y, this.pageWidth - MARGIN, this.y)
+    this.y += 7
+  }
+
+  subTitle(title: string) {
+    this.ensureSpace(12)
+    this.doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(...TEXT_COLOR)
+    this.doc.text(title, MARGIN, this.y)
+    this.y += 5
+  }
+
+  paragraph(text: string, color: RGB = TEXT_COLOR) {
+    this.doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(...color)
+    const lines: string[] = this.doc.splitTextToSize(text || '—', this.contentWidth)
+    for (const line of lines) {
+      this.ensureSpace(5)
+      this.doc.text(line, MARGIN, this.y)
+      this.y += 5
+    }
+    this.y += 3
+  }
+
+  list(items: string[], marker: (idx: number) => string = () => '•') {
+    this.doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(...TEXT_COLOR)
+    if (items.length === 0) {
+      this.paragraph('None', MUTED_COLOR)
+      return
+    }
+    items.forEach((item, idx) => {
+      const lines: string[] = this.doc.splitTextToSize(item, this.contentWidth - 7)
+      lines.forEach((line, lineIdx) => {
+        this.ensureSpace(5)
+        if (lineIdx === 0) this.doc.text(marker(idx), MARGIN + 1, this.y)
+        this.doc.text(line, MARGIN + 7, this.y)
+        this.y += 5
+      })
+    })
+    this.y += 3
+  }
+
+  // Reserves the chart's height on the current page, then lets it draw at the cursor
+  chart(height: number, draw: (doc: jsPDF, x: number, y: number, width: number) => void) {
+    this.ensureSpace(height)
+    draw(this.doc, MARGIN, this.y, this.contentWidth)
+    this.y += height + 4
+  }
+
+  table(head: string[], body: RowInput[], columnStyles: Record<number, object> = {}, foot?: CellInput[]) {
+    this.autoTable(this.doc, {
+      startY: this.y,
+      head: [head],
+      body,
+      foot: foot ? [foot] : undefined,
+      margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+      styles: { font: 'helvetica', fontSize: 9, cellPadding: 2, textColor: TEXT_COLOR },
+      headStyles: { fillColor: BRAND_COLOR, textColor: 255 },
+      footStyles: { fillColor: [243, 244, 246], textColor: TEXT_COLOR, fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: [249, 250, 251] },
+      columnStyles,
+    })
+    this.y = (this.doc.lastAutoTable?.finalY ?? this.y) + 6
+  }
+}
+
+const drawCover = (writer: PdfWriter, report: Report) => {
+  const { doc } = writer
+
+  // Branding band
+  doc.setFillColor(...BRAND_COLOR)
+  doc.rect(0, 0, writer.pageWidth, 24, 'F')
+  doc.setFont('helvetica', 'bold').setFontSize(14).setTextColor(255)
+  doc.text(config.appName, MARGIN, 11)
+  doc.setFont('helvetica', 'normal').setFontSize(9)
+  doc.text(config.companyName ? `Prepared by ${config.companyName}` : 'Construction Tender Analysis', MARGIN, 17)
+  doc.text('Bid Analysis Report', writer.pageWidth - MARGIN, 11, { align: 'right' })
+
+  writer.y = 36
+  doc.setFont('helvetica', 'bold').setFontSize(20).setTextColor(...TEXT_COLOR)
+  const titleLines: string[] = doc.splitTextToSize(report.project_name, writer.contentWidth)
+  doc.text(titleLines, MARGIN, writer.y)
+  writer.y += titleLines.length * 8
+  doc.setFont('helvetica', 'normal').setFontSize(12).setTextColor(...MUTED_COLOR)
+  doc.text(report.client_name, MARGIN, writer.y)
+  writer.y += 6
+  doc.setFontSize(10)
+  doc.text(`${report.project_type} · ${report.location}`, MARGIN, writer.y)
+  writer.y += 8
+
+  // Headline figures
+  const boxWidth = (writer.contentWidth - 9) / 4
+  const boxHeight = 22
+  const boxes: Array<{ label: string; value: string; detail: string; color: RGB; filled: boolean }> = [
+    { label: 'RISK SCORE', value: `${report.risk_score.toFixed(1)}/10`, detail: report.risk_level, color: getRiskColor(report.risk_level), filled: false },
+    { label: 'RECOMMENDATION', value: report.participation_recommendation, detail: '', color: getRecommendationColor(report.participation_recommendation), filled: true },
+    { label: 'BUDGET RANGE', value: formatCurrency(report.budget_min), detail: `to ${formatCurrency(report.budget_max)}`, color: TEXT_COLOR, filled: false },
+    { label: 'DURATION', value: `${report.duration_months} months`, detail: `Deadline ${formatDate(report.deadline_date)}`, color: TEXT_COLOR, filled: false },
+  ]
+  boxes.forEach((box, idx) => {
+    const x = MARGIN + idx * (boxWidth + 3)
+    if (box.filled) {
+      doc.setFillColor(...box.color)
+      doc.roundedRect(x, writer.y, boxWidth, boxHeight, 2, 2, 'F')
+    } else {
+      doc.setDrawColor(...box.color).setLineWidth(0.6)
+      doc.roundedRect(x, writer.y, boxWidth, boxHeight, 2, 2, 'S')
+    }
+    const textColor: RGB = box.filled ? [255, 255, 255] : box.color
+    doc.setFont('helvetica', 'bold').setFontSize(7).setTextColor(...(box.filled ? textColor : MUTED_COLOR))
+    doc.text(box.label, x + 3, writer.y + 5)
+    doc.setFontSize(13).setTextColor(...textColor)
+    doc.text(box.value, x + 3, writer.y + 12.5)
+    doc.setFont('helvetica', 'normal').setFontSize(8)
+    doc.text(box.detail, x + 3, writer.y + 18)
+  })
+  writer.y += boxHeight + 6
+}
+
+const drawExecutiveSummary = (writer: PdfWriter, report: Report) => {
+  writer.sectionTitle('1. Executive Summary')
+  writer.paragraph(report.executive_summary.description)
+
+  writer.subTitle('Key Dates')
+  writer.table(['Milestone', 'Date'], [
+    ['Proposal Deadline', formatDate(report.deadline_date)],
+    ['Award Date', formatDate(report.award_date)],
+    ['Project Start', formatDate(report.start_date)],
+  ])
+
+  writer.subTitle('Requirements')
+  writer.list(report.executive_summary.requirements)
+
+  writer.subTitle('Selection Method')
+  writer.paragraph(report.executive_summary.selection_method)
+}
+
+const drawCostAnalysis = (writer: PdfWriter, report: Report) => {
+  const cost = report.cost_analysis
+  const right = { halign: 'right' }
+  writer.sectionTitle('2. Cost Analysis')
+
+  writer.subTitle('Budget Breakdown')
+  const slices = budgetSlices(report)
+  writer.chart(budgetDonutHeight(slices), (doc, x, y) => drawBudgetDonut(doc, slices, x, y))
+  writer.table(
+    ['Category', 'Share', 'Amount'],
+    cost.budget_breakdown.map(item => [item.category, `${item.percentage}%`, formatCurrency(item.amount)]),
+    { 1: right, 2: right },
+  )
+
+  writer.subTitle('Guarantees Required')
+  const bars = guaranteeBars(report)
+  if (bars.length > 0) {
+    writer.chart(guaranteesChartHeight(bars), (doc, x, y, width) => drawGuaranteeBars(doc, bars, x, y, width))
+  }
+  writer.table(
+    ['Guarantee', 'Share', 'Amount'],
+    cost.guarantees.map(item => [item.type, `${item.percentage}%`, formatCurrency(item.amount)]),
+    { 1: right, 2: right },
+    ['Total Guarantees', '', formatCurrency(cost.guarantees.reduce((sum, g) => sum + g.amount, 0))],
+  )
+
+  writer.subTitle('Payment Terms')
+  writer.table(['Advance', 'Progress', 'Retention'], [
+    [`${cost.payment_terms.advance}%`, `${cost.payment_terms.progress}%`, `${cost.payment_terms.retention}%`],
+  ])
+
+  writer.subTitle('Cash Flow (cumulative payments on the mid-range contract value)')
+  writer.chart(CASH_FLOW_HEIGHT, (doc, x, y, width) => drawCashFlow(doc, cashFlowCurve(report), x, y, width))
+
+  writer.subTitle('AI Pricing Strategy')
+  writer.paragraph(cost.pricing_strategy)
+}
+
+const drawRiskAssessment = (writer: PdfWriter, report: Report) => {
+  const risk = report.risk_assessment
+  writer.sectionTitle('3. Risk Assessment')
+
+  writer.subTitle('Risk Categories')
+  writer.table(
+    ['Category', 'Level', 'Risks'],
+    risk.categories.map(category => [
+      category.name,
+      { content: category.level, styles: { textColor: getRiskColor(category.level), fontStyle: 'bold' } },
+      category.items.map(item => `• ${item}`).join('\n'),
+    ]),
+    { 0: { cellWidth: 40 }, 1: { cellWidth: 28 } },
+  )
+
+  writer.subTitle('Red Flags')
+  writer.list(risk.red_flags, () => '!')
+
+  writer.subTitle('Mitigation Actions')
+  writer.list(risk.mitigation_actions)
+}
+
+const drawRecommendations = (writer: PdfWriter, report: Report) => {
+  writer.sectionTitle('4. Recommendations')
+
+  writer.subTitle('Strategic Advice')
+  writer.paragraph(report.recommendations.strategic_advice)
+
+  writer.subTitle('Priority Actions (Next 7 Days)')
+  writer.list(report.recommendations.priority_actions, idx => `${idx + 1}.`)
+}
+
+// Footers go on last, once the total page count is known
+const drawFooters = (writer: PdfWriter, generatedAt: Date) => {
+  const { doc } = writer
+  const pageCount = doc.getNumberOfPages()
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page)
+    const y = writer.pageHeight - MARGIN + 4
+    doc.setDrawColor(229, 231, 235).setLineWidth(0.3)
+    doc.line(MARGIN, y - 5, writer.pageWidth - MARGIN, y - 5)
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(...MUTED_COLOR)
+    doc.text(`Generated on ${generatedAt.toLocaleString()}`, MARGIN, y)
+    doc.text(config.companyName || config.appName, writer.pageWidth / 2, y, { align: 'center' })
+    doc.text(`Page ${page} of ${pageCount}`, writer.pageWidth - MARGIN, y, { align: 'right' })
+  }
+}
+
+export const exportReportPdf = async (report: Report) => {
+  // Loaded on demand; the PDF libraries are only needed when exporting
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')])
+
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4' })
+  const generatedAt = new Date()
+  doc.setProperties({
+    title: `${report.project_name} - Bid Analysis`,
+    subject: `Tender analysis for ${report.client_name}`,
+    creator: config.appName,
+  })
+
+  const writer = new PdfWriter(doc, autoTable)
+  drawCover(writer, report)
+  drawExecutiveSummary(writer, report)
+  drawCostAnalysis(writer, report)
+  drawRiskAssessment(writer, report)
+  drawRecommendations(writer, report)
+  drawFooters(writer, generatedAt)
+
+  doc.save(reportFileName(report, 'pdf'))
+}
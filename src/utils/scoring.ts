@@ -0,0 +1,91 @@
+/**
+ * Scores a report against the organization's bid/no-bid scoring model
+ */
+import { ComparisonReport } from '../api/reports'
+import { RangeFactor, RecommendationValue, ScoringFactorKey, ScoringModel } from '../api/scoring'
+import { daysUntil, formatCurrency } from './format'
+
+export interface FactorScore {
+  key: ScoringFactorKey
+  label: string
+  // The report's input for this factor, formatted for display
+  value: string
+  // 0-1 before weighting
+  score: number
+  // Contribution to the 0-100 total
+  points: number
+}
+
+export interface ReportScore {
+  total: number
+  factors: FactorScore[]
+}
+
+export const SCORING_FACTORS: Array<{ key: ScoringFactorKey; label: string; unit: string }> = [
+  { key: 'risk_score', label: 'Risk score', unit: '/10' },
+  { key: 'red_flags', label: 'Red flags', unit: 'flags' },
+  { key: 'budget_fit', label: 'Budget fit', unit: '$' },
+  { key: 'duration', label: 'Duration', unit: 'months' },
+  { key: 'deadline', label: 'Time to deadline', unit: 'days' },
+  { key: 'recommendation', label: 'AI recommendation', unit: 'pts' },
+]
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+const scoreRange = (value: number, factor: RangeFactor) => {
+  if (factor.best === factor.worst) return value === factor.best ? 1 : 0
+  return clamp((value - factor.worst) / (factor.best - factor.worst))
+}
+
+const scoreBudgetFit = (budget: number, model: ScoringModel) => {
+  const { capacity_min, capacity_max, tolerance_pct } = model.budget_fit
+  if (budget >= capacity_min && budget <= capacity_max) return 1
+  const bound = budget < capacity_min ? capacity_min : capacity_max
+  const allowed = (bound * tolerance_pct) / 100
+  return allowed > 0 ? clamp(1 - Math.abs(budget - bound) / allowed) : 0
+}
+
+export const scoreReport = (report: ComparisonReport, model: ScoringModel, today?: string): ReportScore => {
+  const budget = (report.budget_min + report.budget_max) / 2
+  const redFlags = report.risk_assessment.red_flags.length
+  const days = daysUntil(report.deadline_date, today)
+  const recommendation = report.participation_recommendation as RecommendationValue
+
+  const raw: Record<ScoringFactorKey, { value: string; score: number }> = {
+    risk_score: { value: `${report.risk_score.toFixed(1)}/10`, score: scoreRange(report.risk_score, model.risk_score) },
+    red_flags: { value: String(redFlags), score: scoreRange(redFlags, model.red_flags) },
+    budget_fit: { value: formatCurrency(budget), score: scoreBudgetFit(budget, model) },
+    duration: { value: `${report.duration_months} months`, score: scoreRange(report.duration_months, model.duration) },
+    // A passed deadline can't be bid on, whatever the thresholds say; a missing one earns nothing either
+    deadline: days === null
+      ? { value: 'No deadline', score: 0 }
+      : { value: days < 0 ? 'Passed' : `${days} days`, score: days < 0 ? 0 : scoreRange(days, model.deadline) },
+    recommendation: {
+      value: report.participation_recommendation,
+      score: clamp((model.recommendation.points[recommendation] ?? 0) / 100),
+    },
+  }
+
+  const totalWeight = SCORING_FACTORS.reduce((sum, factor) => sum + model[factor.key].weight, 0)
+  const factors = SCORING_FACTORS.map(({ key, label }): FactorScore => ({
+    key,
+    label,
+    ...raw[key],
+    points: totalWeight > 0 ? (raw[key].score * model[key].weight * 100) / totalWeight : 0,
+  }))
+  return { total: factors.reduce((sum, factor) => sum + factor.points, 0), factors }
+}
+
+// Returns an error message, or null when the model can be saved
+export const validateScoringModel = (model: ScoringModel): string | null => {
+  const weights = SCORING_FACTORS.map(factor => model[factor.key].weight)
+  if (weights.some(weight => !Number.isFinite(weight) || weight < 0)) return 'Weights must be zero or more'
+  if (weights.every(weight => weight === 0)) return 'At least one factor needs a weight above zero'
+  if (model.budget_fit.capacity_min > model.budget_fit.capacity_max) return 'Minimum capacity is above the maximum'
+  for (const key of ['risk_score', 'red_flags', 'duration', 'deadline'] as const) {
+    if (model[key].best === model[key].worst) {
+      return `${SCORING_FACTORS.find(factor => factor.key === key)!.label}: best and worst thresholds must differ`
+    }
+  }
+  return null
+}
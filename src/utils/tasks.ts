@@ -0,0 +1,72 @@
+/**
+ * Turns a report's mitigation and priority actions into tracked tasks
+ */
+import { Report } from '../api/reports'
+import { ReportTask, TaskSource } from '../api/tasks'
+import { addDays, dateKey, toDateKey } from './deadlines'
+
+export interface TrackedTask {
+  key: string
+  source: TaskSource
+  title: string
+  // Null until someone first changes the action; defaults below apply until then
+  task: ReportTask | null
+  completed: boolean
+  assignee_id: number | null
+  assignee_name: string | null
+  due_date: string | null
+  notes: string
+}
+
+export interface TaskProgress {
+  total: number
+  done: number
+  overdue: number
+}
+
+// Changes shown on an action whose task is still being created, keyed by TrackedTask key
+export type PendingTasks = Record<string, Partial<TrackedTask>>
+
+// Matches the "Next 7 Days" window the priority actions promise
+const DEFAULT_DUE_DAYS = 7
+
+export const defaultDueDate = (today = toDateKey(new Date())) => addDays(today, DEFAULT_DUE_DAYS)
+
+const trackActions = (source: TaskSource, actions: string[], tasks: ReportTask[], pending: PendingTasks): TrackedTask[] => {
+  return actions.map((title, idx) => {
+    const key = `${source}-${idx}`
+    const task = tasks.find(t => t.source === source && t.title === title) || null
+    return {
+      key,
+      source,
+      title,
+      task,
+      completed: task?.completed ?? false,
+      assignee_id: task?.assignee_id ?? null,
+      assignee_name: task?.assignee_name ?? null,
+      due_date: task ? task.due_date : defaultDueDate(),
+      notes: task?.notes ?? '',
+      ...(task ? {} : pending[key]),
+    }
+  })
+}
+
+// Tasks are matched by their action text, so ticks survive re-analysis as long as the action is unchanged
+export const trackTasks = (
+  report: Pick<Report, 'risk_assessment' | 'recommendations'>,
+  tasks: ReportTask[],
+  pending: PendingTasks = {}
+) => ({
+  mitigation: trackActions('mitigation', report.risk_assessment.mitigation_actions, tasks, pending),
+  priority: trackActions('priority', report.recommendations.priority_actions, tasks, pending),
+})
+
+export const isOverdue = (task: { completed: boolean; due_date: string | null }, today = toDateKey(new Date())) => {
+  return !task.completed && !!task.due_date && dateKey(task.due_date) < today
+}
+
+export const taskProgress = (tasks: TrackedTask[]): TaskProgress => ({
+  total: tasks.length,
+  done: tasks.filter(task => task.completed).length,
+  overdue: tasks.filter(task => isOverdue(task)).length,
+})
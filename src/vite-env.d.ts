@@ -5,6 +5,9 @@ interface ImportMetaEnv {
   readonly VITE_ENVIRONMENT: string
   readonly VITE_APP_NAME: string
   readonly VITE_APP_VERSION: string
+  readonly VITE_COMPANY_NAME?: string
+  readonly VITE_MAX_UPLOAD_SIZE_MB?: string
+  readonly VITE_UPLOAD_CHUNK_SIZE_MB?: string
 }
 
 interface ImportMeta {